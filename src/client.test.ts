@@ -2,8 +2,18 @@
  * SuperOps Client Tests
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
-import { getCredentials, resetClient } from "./client.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  SuperOpsClient,
+  SuperOpsError,
+  getAuthMode,
+  getClient,
+  getCredentials,
+  getRequestTimeoutMs,
+  getRetryPolicy,
+  parseCredentialsFromHeaders,
+  resetClient,
+} from "./client.js";
 
 describe("getCredentials", () => {
   beforeEach(() => {
@@ -52,3 +62,387 @@ describe("getCredentials", () => {
     });
   });
 });
+
+describe("getAuthMode", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("defaults to env", () => {
+    vi.stubEnv("AUTH_MODE", "");
+    expect(getAuthMode()).toBe("env");
+  });
+
+  it("returns header when AUTH_MODE=header", () => {
+    vi.stubEnv("AUTH_MODE", "header");
+    expect(getAuthMode()).toBe("header");
+  });
+});
+
+describe("parseCredentialsFromHeaders", () => {
+  it("returns credentials from headers", () => {
+    const creds = parseCredentialsFromHeaders({
+      "x-superops-api-token": "tenant-token",
+      "x-superops-subdomain": "tenant",
+      "x-superops-region": "EU",
+    });
+
+    expect(creds).toEqual({
+      apiToken: "tenant-token",
+      subdomain: "tenant",
+      region: "eu",
+    });
+  });
+
+  it("returns null when the token header is missing", () => {
+    expect(parseCredentialsFromHeaders({ "x-superops-subdomain": "tenant" })).toBeNull();
+  });
+
+  it("returns null when the subdomain header is missing", () => {
+    expect(parseCredentialsFromHeaders({ "x-superops-api-token": "tenant-token" })).toBeNull();
+  });
+
+  it("returns null for an unknown region", () => {
+    const creds = parseCredentialsFromHeaders({
+      "x-superops-api-token": "tenant-token",
+      "x-superops-subdomain": "tenant",
+      "x-superops-region": "apac",
+    });
+
+    expect(creds).toBeNull();
+  });
+});
+
+describe("getClient", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it("caches one client per tenant", () => {
+    const tenantA = { apiToken: "token-a", subdomain: "tenant-a" };
+    const tenantB = { apiToken: "token-b", subdomain: "tenant-b" };
+
+    const clientA = getClient({ credentials: tenantA });
+    expect(getClient({ credentials: { ...tenantA } })).toBe(clientA);
+    expect(getClient({ credentials: tenantB })).not.toBe(clientA);
+  });
+
+  it("does not share tenant clients with the env client", () => {
+    vi.stubEnv("SUPEROPS_API_TOKEN", "token-a");
+    vi.stubEnv("SUPEROPS_SUBDOMAIN", "tenant-a");
+
+    const envClient = getClient();
+    expect(getClient()).toBe(envClient);
+    expect(
+      getClient({ credentials: { apiToken: "token-a", subdomain: "tenant-a" } })
+    ).not.toBe(envClient);
+  });
+
+  it("returns a view bound to the context's signal", () => {
+    const credentials = { apiToken: "token-a", subdomain: "tenant-a" };
+    const base = getClient({ credentials });
+
+    const scoped = getClient({ credentials, signal: new AbortController().signal });
+
+    expect(scoped).not.toBe(base);
+    expect(scoped).toBeInstanceOf(SuperOpsClient);
+    expect(scoped.rateLimitStats()).toEqual(base.rateLimitStats());
+  });
+
+  it("throws when env credentials are missing", () => {
+    vi.stubEnv("SUPEROPS_API_TOKEN", "");
+    vi.stubEnv("SUPEROPS_SUBDOMAIN", "");
+
+    expect(() => getClient()).toThrow("SuperOps credentials not configured");
+  });
+});
+
+describe("SuperOpsClient retries", () => {
+  const credentials = { apiToken: "test-token", subdomain: "testcompany" };
+  const noDelay = { baseDelayMs: 0, maxDelayMs: 0 };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      ...init,
+    });
+  }
+
+  function errorResponse(status: number, headers: Record<string, string> = {}): Response {
+    return new Response("", { status, statusText: "Error", headers });
+  }
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("retries retryable HTTP statuses", async () => {
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(errorResponse(429))
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.query("query { ok }")).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries network errors", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.query("query { ok }")).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry other HTTP errors", async () => {
+    fetchMock.mockResolvedValue(errorResponse(400));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.query("query { ok }")).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the GraphQL error code, path and field", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        errors: [
+          {
+            message: "Invalid value",
+            path: ["createTicket"],
+            extensions: { code: "BAD_USER_INPUT", field: "priority" },
+          },
+        ],
+      })
+    );
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.query("query { ok }")).rejects.toMatchObject({
+      kind: "validation",
+      code: "BAD_USER_INPUT",
+      path: ["createTicket"],
+      field: "priority",
+    });
+  });
+
+  it("keeps every GraphQL error on the thrown error", async () => {
+    const errors = [
+      { message: "Sites unavailable", path: ["getClient", "sites"] },
+      { message: "Contacts unavailable", path: ["getClient", "contacts"] },
+    ];
+    fetchMock.mockResolvedValue(jsonResponse({ data: { getClient: { name: "Acme" } }, errors }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.query("query { ok }")).rejects.toMatchObject({
+      message: "Sites unavailable",
+      errors,
+    });
+  });
+
+  it("returns partial data with every error from queryPartial", async () => {
+    const errors = [{ message: "Sites unavailable", path: ["getClient", "sites"] }];
+    fetchMock.mockResolvedValue(jsonResponse({ data: { getClient: { name: "Acme" } }, errors }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.queryPartial("query { ok }")).resolves.toEqual({
+      data: { getClient: { name: "Acme" } },
+      errors,
+    });
+  });
+
+  it("returns an empty error list from queryPartial on success", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: { ok: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.queryPartial("query { ok }")).resolves.toEqual({
+      data: { ok: true },
+      errors: [],
+    });
+  });
+
+  it("throws from queryPartial when no data came back", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ data: null, errors: [{ message: "Syntax error" }] })
+    );
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.queryPartial("query {")).rejects.toMatchObject({
+      message: "Syntax error",
+    });
+  });
+
+  it("gives up after maxRetries", async () => {
+    fetchMock.mockResolvedValue(errorResponse(502));
+
+    const client = new SuperOpsClient(credentials, { retry: { ...noDelay, maxRetries: 2 } });
+    await expect(client.query("query { ok }")).rejects.toBeInstanceOf(SuperOpsError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for the Retry-After header", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(429, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    const result = client.query("query { ok }");
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for retryAfter from GraphQL error extensions", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse({
+          errors: [{ message: "Rate limited", extensions: { code: "RATE_LIMITED", retryAfter: 1 } }],
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    const result = client.query("query { ok }");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up when the wait would exceed maxTotalWaitMs", async () => {
+    fetchMock.mockResolvedValue(errorResponse(429, { "Retry-After": "60" }));
+
+    const client = new SuperOpsClient(credentials, {
+      retry: { ...noDelay, maxTotalWaitMs: 30_000 },
+    });
+    await expect(client.query("query { ok }")).rejects.toMatchObject({
+      status: 429,
+      retryAfter: 60,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry mutations by default", async () => {
+    fetchMock.mockResolvedValue(errorResponse(503));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(client.mutate("mutation { create }")).rejects.toBeInstanceOf(SuperOpsError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries idempotent mutations", async () => {
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(jsonResponse({ data: { update: true } }));
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    await expect(
+      client.mutate("mutation { update }", undefined, { idempotent: true })
+    ).resolves.toEqual({ update: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  // Like fetch, never settles on its own but rejects once the signal aborts
+  function hangUntilAborted(_url: string, init: RequestInit): Promise<Response> {
+    return new Promise((_resolve, reject) => {
+      const signal = init.signal as AbortSignal;
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal.addEventListener("abort", () => reject(signal.reason));
+    });
+  }
+
+  it("times out hung requests", async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const client = new SuperOpsClient(credentials, {
+      retry: { maxRetries: 0 },
+      timeoutMs: 10,
+    });
+    await expect(client.query("query { ok }")).rejects.toMatchObject({
+      code: "TIMEOUT",
+      message: "Request timed out after 10 ms",
+    });
+  });
+
+  it("cancels in-flight requests when the signal aborts", async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+    const controller = new AbortController();
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    const result = client.withSignal(controller.signal).query("query { ok }");
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("combines the timeout and caller signals without AbortSignal.any", async () => {
+    // Node 20.0 to 20.2 have no AbortSignal.any
+    const any = AbortSignal.any;
+    Reflect.deleteProperty(AbortSignal, "any");
+    try {
+      fetchMock.mockImplementation(hangUntilAborted);
+      const controller = new AbortController();
+      const client = new SuperOpsClient(credentials, {
+        retry: { maxRetries: 0 },
+        timeoutMs: 10,
+      });
+
+      await expect(client.query("query { ok }")).rejects.toMatchObject({ code: "TIMEOUT" });
+
+      const result = client.withSignal(controller.signal).query("query { ok }");
+      controller.abort();
+      await expect(result).rejects.toMatchObject({ code: "CANCELLED" });
+    } finally {
+      AbortSignal.any = any;
+    }
+  });
+
+  it("stops retrying when the signal aborts during backoff", async () => {
+    vi.useFakeTimers();
+    fetchMock.mockResolvedValue(errorResponse(429, { "Retry-After": "5" }));
+    const controller = new AbortController();
+
+    const client = new SuperOpsClient(credentials, { retry: noDelay });
+    const result = client.withSignal(controller.signal).query("query { ok }");
+    const assertion = expect(result).rejects.toMatchObject({ code: "CANCELLED" });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads the request timeout from the environment", () => {
+    vi.stubEnv("SUPEROPS_REQUEST_TIMEOUT_MS", "5000");
+
+    expect(getRequestTimeoutMs()).toBe(5000);
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the retry policy from the environment", () => {
+    vi.stubEnv("SUPEROPS_MAX_RETRIES", "5");
+    vi.stubEnv("SUPEROPS_RETRY_MAX_TOTAL_WAIT_MS", "1000");
+
+    expect(getRetryPolicy()).toMatchObject({ maxRetries: 5, maxTotalWaitMs: 1000 });
+    vi.unstubAllEnvs();
+  });
+});
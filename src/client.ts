@@ -4,83 +4,342 @@
  * Lazy-loaded client for making GraphQL requests to the SuperOps.ai API.
  */
 
-import type { SuperOpsCredentials, GraphQLResponse } from "./types.js";
+import type {
+  AuthMode,
+  SuperOpsCredentials,
+  GraphQLError,
+  GraphQLResponse,
+  GraphQLResult,
+  ToolContext,
+} from "./types.js";
+import { readEnvNumber } from "./env.js";
+import { SuperOpsError } from "./errors.js";
+import {
+  RateLimiter,
+  getRateLimiterOptions,
+  type RateLimiterOptions,
+  type RateLimiterStats,
+} from "./rate-limiter.js";
+
+export { SuperOpsError };
 
 const API_ENDPOINTS = {
   us: "https://api.superops.ai/msp",
   eu: "https://euapi.superops.ai/msp",
 } as const;
 
+// Time of the most recent successful API response, reported by /health
+let lastApiSuccess: Date | null = null;
+
+export function getLastApiSuccess(): Date | null {
+  return lastApiSuccess;
+}
+
+export interface RetryPolicy {
+  // Retries after the first attempt (0 disables retrying)
+  maxRetries: number;
+  // Backoff before the first retry, doubled for each further retry
+  baseDelayMs: number;
+  // Cap on a single backoff delay
+  maxDelayMs: number;
+  // Cap on the total time spent waiting between attempts
+  maxTotalWaitMs: number;
+}
+
+export interface ClientOptions {
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: Partial<RateLimiterOptions>;
+  // Per-attempt request timeout
+  timeoutMs?: number;
+}
+
+export interface MutationOptions {
+  // Safe to repeat, so retried like a query
+  idempotent?: boolean;
+}
+
+// HTTP statuses worth retrying: rate limited or a transient gateway failure
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: readEnvNumber("SUPEROPS_MAX_RETRIES", 3),
+    baseDelayMs: readEnvNumber("SUPEROPS_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: readEnvNumber("SUPEROPS_RETRY_MAX_DELAY_MS", 10_000),
+    maxTotalWaitMs: readEnvNumber("SUPEROPS_RETRY_MAX_TOTAL_WAIT_MS", 30_000),
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into seconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+export function getRequestTimeoutMs(): number {
+  return readEnvNumber("SUPEROPS_REQUEST_TIMEOUT_MS", 30_000, 1);
+}
+
+function isRetryable(error: unknown): error is SuperOpsError {
+  if (!(error instanceof SuperOpsError)) {
+    return false;
+  }
+  if (
+    error.code === "NETWORK_ERROR" ||
+    error.code === "TIMEOUT" ||
+    error.retryAfter !== undefined
+  ) {
+    return true;
+  }
+  return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+/**
+ * Build an error from a GraphQL response's errors, classified by the first
+ * and carrying the full list.
+ */
+function graphQLError(errors: GraphQLError[]): SuperOpsError {
+  const [first] = errors;
+  const rateLimited = errors.find((error) => error.extensions?.retryAfter !== undefined);
+  return new SuperOpsError(first.message, {
+    code: first.extensions?.code,
+    retryAfter: rateLimited?.extensions?.retryAfter,
+    path: first.path,
+    field: first.extensions?.field,
+    errors,
+  });
+}
+
+function cancelledError(): SuperOpsError {
+  return new SuperOpsError("Request cancelled", { code: "CANCELLED" });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export class SuperOpsClient {
   private readonly apiToken: string;
   private readonly subdomain: string;
   private readonly endpoint: string;
+  private readonly retry: RetryPolicy;
+  private readonly limiter: RateLimiter;
+  private readonly timeoutMs: number;
+  // Set only on views returned by withSignal()
+  private signal?: AbortSignal;
 
-  constructor(credentials: SuperOpsCredentials) {
+  constructor(credentials: SuperOpsCredentials, options: ClientOptions = {}) {
     this.apiToken = credentials.apiToken;
     this.subdomain = credentials.subdomain;
     this.endpoint = API_ENDPOINTS[credentials.region ?? "us"];
+    this.retry = { ...getRetryPolicy(), ...options.retry };
+    this.limiter = new RateLimiter({ ...getRateLimiterOptions(), ...options.rateLimit });
+    this.timeoutMs = options.timeoutMs ?? getRequestTimeoutMs();
+  }
+
+  /**
+   * A view of this client whose requests are cancelled when the signal
+   * aborts. The view shares this client's rate limiter and settings.
+   */
+  withSignal(signal?: AbortSignal): SuperOpsClient {
+    if (!signal) {
+      return this;
+    }
+    const view = Object.create(this) as SuperOpsClient;
+    view.signal = signal;
+    return view;
+  }
+
+  rateLimitStats(): RateLimiterStats {
+    return this.limiter.stats();
   }
 
   async query<T = unknown>(
     query: string,
     variables?: Record<string, unknown>
   ): Promise<T> {
-    const response = await fetch(this.endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiToken}`,
-        CustomerSubDomain: this.subdomain,
-      },
-      body: JSON.stringify({ query, variables }),
-    });
+    const result = await this.withRetry(() => this.execute<T>(query, variables));
+    return result.data;
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
-    }
+  /**
+   * Like query(), but when the API returns data alongside errors (e.g. one
+   * field failed to resolve) returns the partial data and every error
+   * instead of throwing. Still throws when no data came back.
+   */
+  async queryPartial<T = unknown>(
+    query: string,
+    variables?: Record<string, unknown>
+  ): Promise<GraphQLResult<T>> {
+    return this.withRetry(() => this.execute<T>(query, variables, true));
+  }
+
+  async mutate<T = unknown>(
+    mutation: string,
+    variables?: Record<string, unknown>,
+    options: MutationOptions = {}
+  ): Promise<T> {
+    // A failed mutation may still have been applied, so only retry when
+    // repeating it is safe
+    const result = options.idempotent
+      ? await this.withRetry(() => this.execute<T>(mutation, variables))
+      : await this.execute<T>(mutation, variables);
+    return result.data;
+  }
 
-    const result = (await response.json()) as GraphQLResponse<T>;
+  private async withRetry<T>(attempt: () => Promise<T>): Promise<T> {
+    let waitedMs = 0;
 
-    if (result.errors && result.errors.length > 0) {
-      const error = result.errors[0];
-      throw new SuperOpsError(
-        error.message,
-        error.extensions?.code,
-        error.extensions?.retryAfter
-      );
-    }
+    for (let retries = 0; ; retries++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (retries >= this.retry.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
 
-    if (!result.data) {
-      throw new Error("No data returned from GraphQL query");
+        const delayMs = this.retryDelay(error, retries);
+        if (waitedMs + delayMs > this.retry.maxTotalWaitMs) {
+          throw error;
+        }
+        waitedMs += delayMs;
+        await sleep(delayMs, this.signal);
+      }
     }
+  }
 
-    return result.data;
+  private retryDelay(error: SuperOpsError, retries: number): number {
+    if (error.retryAfter !== undefined) {
+      return error.retryAfter * 1000;
+    }
+    // Exponential backoff with equal jitter
+    const backoff = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** retries);
+    return backoff / 2 + Math.random() * (backoff / 2);
   }
 
-  async mutate<T = unknown>(
-    mutation: string,
+  private async send<T>(
+    query: string,
     variables?: Record<string, unknown>
-  ): Promise<T> {
-    return this.query<T>(mutation, variables);
+  ): Promise<GraphQLResponse<T>> {
+    // One controller for both the timeout and the caller's signal, since
+    // AbortSignal.any needs Node 20.3
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    const onAbort = () => controller.abort();
+    if (this.signal?.aborted) {
+      controller.abort();
+    } else {
+      this.signal?.addEventListener("abort", onAbort, { once: true });
+    }
+    const { signal } = controller;
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiToken}`,
+          CustomerSubDomain: this.subdomain,
+        },
+        body: JSON.stringify({ query, variables }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new SuperOpsError(`HTTP error: ${response.status} ${response.statusText}`, {
+          retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+          status: response.status,
+        });
+      }
+
+      return (await response.json()) as GraphQLResponse<T>;
+    } catch (error) {
+      if (error instanceof SuperOpsError) {
+        throw error;
+      }
+      if (this.signal?.aborted) {
+        throw cancelledError();
+      }
+      if (timedOut) {
+        throw new SuperOpsError(`Request timed out after ${this.timeoutMs} ms`, {
+          code: "TIMEOUT",
+        });
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SuperOpsError(`Network error: ${message}`, { code: "NETWORK_ERROR" });
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener("abort", onAbort);
+    }
   }
-}
 
-export class SuperOpsError extends Error {
-  readonly code?: string;
-  readonly retryAfter?: number;
+  private async execute<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    allowPartial = false
+  ): Promise<GraphQLResult<T>> {
+    const release = await this.limiter.acquire(this.signal).catch(() => {
+      throw cancelledError();
+    });
+    let result: GraphQLResponse<T>;
+    try {
+      result = await this.send<T>(query, variables);
+    } finally {
+      release();
+    }
 
-  constructor(message: string, code?: string, retryAfter?: number) {
-    super(message);
-    this.name = "SuperOpsError";
-    this.code = code;
-    this.retryAfter = retryAfter;
+    const errors = result.errors ?? [];
+    if (errors.length > 0 && !(allowPartial && result.data)) {
+      throw graphQLError(errors);
+    }
+
+    if (!result.data) {
+      throw new SuperOpsError("No data returned from GraphQL query", { kind: "upstream" });
+    }
+
+    lastApiSuccess = new Date();
+    return { data: result.data, errors };
   }
 }
 
-// Lazy-loaded singleton client
+// Lazy-loaded singleton client for env credentials
 let _client: SuperOpsClient | null = null;
 
+// Per-tenant clients for header auth mode, evicted oldest-first
+const MAX_TENANT_CLIENTS = 100;
+const tenantClients = new Map<string, SuperOpsClient>();
+
+export function getAuthMode(): AuthMode {
+  return process.env.AUTH_MODE === "header" ? "header" : "env";
+}
+
 export function getCredentials(): SuperOpsCredentials | null {
   const apiToken = process.env.SUPEROPS_API_TOKEN;
   const subdomain = process.env.SUPEROPS_SUBDOMAIN;
@@ -93,7 +352,67 @@ export function getCredentials(): SuperOpsCredentials | null {
   return { apiToken, subdomain, region };
 }
 
-export function getClient(): SuperOpsClient {
+function headerValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read tenant credentials from request headers (AUTH_MODE=header).
+ *
+ * Returns null unless both the token and subdomain headers are present and
+ * the region header, if given, is a known region.
+ */
+export function parseCredentialsFromHeaders(
+  headers: Record<string, string | string[] | undefined>
+): SuperOpsCredentials | null {
+  const apiToken = headerValue(headers, "x-superops-api-token")?.trim();
+  const subdomain = headerValue(headers, "x-superops-subdomain")?.trim();
+  const region = headerValue(headers, "x-superops-region")?.trim().toLowerCase();
+
+  if (!apiToken || !subdomain) {
+    return null;
+  }
+  if (region && region !== "us" && region !== "eu") {
+    return null;
+  }
+
+  return { apiToken, subdomain, region: region as "us" | "eu" | undefined };
+}
+
+function getTenantClient(credentials: SuperOpsCredentials): SuperOpsClient {
+  const key = JSON.stringify([credentials.region ?? "us", credentials.subdomain, credentials.apiToken]);
+
+  let client = tenantClients.get(key);
+  if (client) {
+    // Re-insert to mark as most recently used
+    tenantClients.delete(key);
+  } else {
+    client = new SuperOpsClient(credentials);
+    if (tenantClients.size >= MAX_TENANT_CLIENTS) {
+      const oldest = tenantClients.keys().next().value;
+      if (oldest !== undefined) {
+        tenantClients.delete(oldest);
+      }
+    }
+  }
+  tenantClients.set(key, client);
+  return client;
+}
+
+/**
+ * Get a client for a tool call: the tenant client for the context's
+ * credentials, or the env-configured client when it has none. Requests are
+ * cancelled when the context's signal aborts.
+ */
+export function getClient(context: ToolContext = {}): SuperOpsClient {
+  if (context.credentials) {
+    return getTenantClient(context.credentials).withSignal(context.signal);
+  }
+
   if (!_client) {
     const creds = getCredentials();
     if (!creds) {
@@ -103,9 +422,10 @@ export function getClient(): SuperOpsClient {
     }
     _client = new SuperOpsClient(creds);
   }
-  return _client;
+  return _client.withSignal(context.signal);
 }
 
 export function resetClient(): void {
   _client = null;
+  tenantClients.clear();
 }
@@ -104,6 +104,29 @@ describe("Assets Domain", () => {
       expect(result.content[0].text).toContain("DESKTOP-001");
     });
 
+    it("renders a Markdown table when requested", async () => {
+      mockClient.query.mockResolvedValue({
+        getAssetList: {
+          assets: [
+            { assetId: "1", name: "DESKTOP-001", client: { accountId: "a1", name: "Acme" } },
+          ],
+          listInfo: { totalCount: 1, hasNextPage: false },
+        },
+      });
+
+      const domain = getAssetsTools();
+      const result = await domain.handleCall("superops_assets_list", { format: "markdown" });
+
+      expect(result.content[0].text).toBe(
+        [
+          "| assetId | name | client.accountId | client.name |",
+          "| --- | --- | --- | --- |",
+          "| 1 | DESKTOP-001 | a1 | Acme |",
+        ].join("\n")
+      );
+      expect(result.content[1].text).toBe("Showing 1 of 1 assets.");
+    });
+
     it("applies status filter", async () => {
       const mockResponse = {
         getAssetList: {
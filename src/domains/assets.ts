@@ -5,12 +5,42 @@
  */
 
 import { getClient } from "../client.js";
+import { SuperOpsError, errorResult } from "../errors.js";
+import { ASSET_FIELDS, fieldsProperty, selectFields } from "../fields.js";
+import { formatProperty, jsonResult, listResult, type OutputFormat } from "../format.js";
+import { fetchList, paginationProperties } from "../pagination.js";
+import {
+  ASSET_SCHEMA,
+  LIST_INFO_SCHEMA,
+  NUMBER,
+  PATCH_STATUS_SCHEMA,
+  STRING,
+  arrayOf,
+  entityOutputSchema,
+  listOutputSchema,
+  objectOf,
+  outputSchema,
+} from "../schemas.js";
 import type { DomainTools, Asset, ListInfo } from "../types.js";
 
-const LIST_ASSETS_QUERY = `
+function listAssetsQuery(selection: string): string {
+  return `
   query getAssetList($input: ListInfoInput!) {
     getAssetList(input: $input) {
       assets {
+${selection}
+      }
+      listInfo {
+        totalCount
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+}
+
+const LIST_ASSETS_QUERY = listAssetsQuery(`
         assetId
         name
         status
@@ -31,20 +61,19 @@ const LIST_ASSETS_QUERY = `
           pendingCount
           installedCount
           failedCount
-        }
-      }
-      listInfo {
-        totalCount
-        hasNextPage
-        endCursor
-      }
+        }`);
+
+function getAssetQuery(selection: string): string {
+  return `
+  query getAsset($input: AssetIdentifierInput!) {
+    getAsset(input: $input) {
+${selection}
     }
   }
 `;
+}
 
-const GET_ASSET_QUERY = `
-  query getAsset($input: AssetIdentifierInput!) {
-    getAsset(input: $input) {
+const GET_ASSET_QUERY = getAssetQuery(`
       assetId
       name
       status
@@ -79,10 +108,7 @@ const GET_ASSET_QUERY = `
         name
         value
       }
-      agentVersion
-    }
-  }
-`;
+      agentVersion`);
 
 const GET_ASSET_SOFTWARE_QUERY = `
   query getAssetSoftwareList($input: AssetSoftwareListInput!) {
@@ -144,6 +170,14 @@ interface Software {
   size?: number;
 }
 
+const SOFTWARE_SCHEMA = objectOf<Software>({
+  name: STRING,
+  version: STRING,
+  publisher: STRING,
+  installDate: STRING,
+  size: NUMBER,
+});
+
 interface GetSoftwareResponse {
   getAssetSoftwareList: {
     software: Software[];
@@ -161,6 +195,16 @@ interface Patch {
   category?: string;
 }
 
+const PATCH_SCHEMA = objectOf<Patch>({
+  patchId: STRING,
+  title: STRING,
+  severity: STRING,
+  status: STRING,
+  releaseDate: STRING,
+  kbNumber: STRING,
+  category: STRING,
+});
+
 interface GetPatchesResponse {
   getAssetPatchDetails: {
     patches: Patch[];
@@ -200,14 +244,20 @@ export function getAssetsTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 100, max: 500)",
+              minimum: 1,
+              maximum: 500,
               default: 100,
             },
             cursor: {
               type: "string",
               description: "Pagination cursor for fetching next page",
             },
+            ...paginationProperties,
+            format: formatProperty,
+            fields: fieldsProperty(ASSET_FIELDS, "asset"),
           },
         },
+        outputSchema: listOutputSchema("assets", ASSET_SCHEMA),
       },
       {
         name: "superops_assets_get",
@@ -220,9 +270,11 @@ export function getAssetsTools(): DomainTools {
               type: "string",
               description: "The unique asset ID",
             },
+            fields: fieldsProperty(ASSET_FIELDS, "asset"),
           },
           required: ["assetId"],
         },
+        outputSchema: entityOutputSchema(ASSET_SCHEMA),
       },
       {
         name: "superops_assets_software",
@@ -241,11 +293,16 @@ export function getAssetsTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 100)",
+              minimum: 1,
               default: 100,
             },
           },
           required: ["assetId"],
         },
+        outputSchema: outputSchema({
+          software: arrayOf(SOFTWARE_SCHEMA),
+          listInfo: LIST_INFO_SCHEMA,
+        }),
       },
       {
         name: "superops_assets_patches",
@@ -264,17 +321,21 @@ export function getAssetsTools(): DomainTools {
             },
             severity: {
               type: "array",
-              items: { type: "string" },
+              items: { type: "string", enum: ["Critical", "Important", "Moderate", "Low"] },
               description: "Filter by severity levels: Critical, Important, Moderate, Low",
             },
           },
           required: ["assetId"],
         },
+        outputSchema: outputSchema({
+          patches: arrayOf(PATCH_SCHEMA),
+          summary: PATCH_STATUS_SCHEMA,
+        }),
       },
     ],
 
-    async handleCall(name, args) {
-      const client = getClient();
+    async handleCall(name, args, context) {
+      const client = getClient(context);
 
       try {
         switch (name) {
@@ -285,6 +346,10 @@ export function getAssetsTools(): DomainTools {
               clientId?: string;
               max?: number;
               cursor?: string;
+              all?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
+              fields?: string[];
             };
 
             const filter: Record<string, unknown> = {};
@@ -292,40 +357,42 @@ export function getAssetsTools(): DomainTools {
             if (params.platform) filter.platform = params.platform;
             if (params.clientId) filter.client = { accountId: params.clientId };
 
-            const response = await client.query<ListAssetsResponse>(LIST_ASSETS_QUERY, {
-              input: {
-                first: Math.min(params.max ?? 100, 500),
-                ...(params.cursor && { after: params.cursor }),
-                ...(Object.keys(filter).length > 0 && { filter }),
-                orderBy: { field: "name", direction: "ASC" },
-              },
-            });
+            const query = params.fields
+              ? listAssetsQuery(selectFields(params.fields, ASSET_FIELDS, "assetId"))
+              : LIST_ASSETS_QUERY;
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getAssetList, null, 2),
+            const list = await fetchList<Asset>(params, 100, async (page) => {
+              const response = await client.query<ListAssetsResponse>(query, {
+                input: {
+                  ...page,
+                  ...(Object.keys(filter).length > 0 && { filter }),
+                  orderBy: { field: "name", direction: "ASC" },
                 },
-              ],
-            };
+              });
+              return {
+                items: response.getAssetList.assets,
+                listInfo: response.getAssetList.listInfo,
+              };
+            });
+
+            return listResult("assets", list, params.format);
           }
 
           case "superops_assets_get": {
-            const { assetId } = args as { assetId: string };
+            const { assetId, fields } = args as { assetId: string; fields?: string[] };
+            const query = fields
+              ? getAssetQuery(selectFields(fields, ASSET_FIELDS, "assetId"))
+              : GET_ASSET_QUERY;
 
-            const response = await client.query<GetAssetResponse>(GET_ASSET_QUERY, {
+            const response = await client.query<GetAssetResponse>(query, {
               input: { assetId },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getAsset, null, 2),
-                },
-              ],
-            };
+            if (!response.getAsset) {
+              throw new SuperOpsError(`Asset not found: ${assetId}`, { kind: "not_found" });
+            }
+
+            return jsonResult(response.getAsset);
           }
 
           case "superops_assets_software": {
@@ -346,14 +413,7 @@ export function getAssetsTools(): DomainTools {
               },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getAssetSoftwareList, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response.getAssetSoftwareList);
           }
 
           case "superops_assets_patches": {
@@ -374,14 +434,7 @@ export function getAssetsTools(): DomainTools {
               },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getAssetPatchDetails, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response.getAssetPatchDetails);
           }
 
           default:
@@ -391,11 +444,7 @@ export function getAssetsTools(): DomainTools {
             };
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${message}` }],
-          isError: true,
-        };
+        return errorResult(error, this.tools.find((tool) => tool.name === name));
       }
     },
   };
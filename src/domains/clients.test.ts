@@ -209,6 +209,20 @@ describe("Clients Domain", () => {
       );
       expect(result.content[0].text).toContain("Test Company");
     });
+
+    it("selects only the requested fields", async () => {
+      mockClient.query.mockResolvedValue({ getClient: { accountId: "acc-123", name: "Test" } });
+
+      const domain = getClientsTools();
+      await domain.handleCall("superops_clients_get", {
+        accountId: "acc-123",
+        fields: ["name", "accountManager"],
+      });
+
+      const [query] = mockClient.query.mock.calls[0];
+      expect(query).toContain("accountId\nname\naccountManager { id name email }");
+      expect(query).not.toContain("annualRevenue");
+    });
   });
 
   describe("superops_clients_search tool", () => {
@@ -5,12 +5,31 @@
  */
 
 import { getClient } from "../client.js";
+import { SuperOpsError, errorResult } from "../errors.js";
+import { CLIENT_FIELDS, fieldsProperty, selectFields } from "../fields.js";
+import { formatProperty, jsonResult, listResult, type OutputFormat } from "../format.js";
+import { fetchList, paginationProperties } from "../pagination.js";
+import { CLIENT_SCHEMA, entityOutputSchema, listOutputSchema } from "../schemas.js";
 import type { DomainTools, Client, ListInfo } from "../types.js";
 
-const LIST_CLIENTS_QUERY = `
+function listClientsQuery(selection: string): string {
+  return `
   query getClientList($input: ListInfoInput!) {
     getClientList(input: $input) {
       clients {
+${selection}
+      }
+      listInfo {
+        totalCount
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+}
+
+const LIST_CLIENTS_QUERY = listClientsQuery(`
         accountId
         name
         stage
@@ -31,20 +50,19 @@ const LIST_CLIENTS_QUERY = `
           email
         }
         createdTime
-        lastUpdatedTime
-      }
-      listInfo {
-        totalCount
-        hasNextPage
-        endCursor
-      }
+        lastUpdatedTime`);
+
+function getClientQuery(selection: string): string {
+  return `
+  query getClient($input: ClientIdentifierInput!) {
+    getClient(input: $input) {
+${selection}
     }
   }
 `;
+}
 
-const GET_CLIENT_QUERY = `
-  query getClient($input: ClientIdentifierInput!) {
-    getClient(input: $input) {
+const GET_CLIENT_QUERY = getClientQuery(`
       accountId
       name
       stage
@@ -84,10 +102,7 @@ const GET_CLIENT_QUERY = `
         value
       }
       createdTime
-      lastUpdatedTime
-    }
-  }
-`;
+      lastUpdatedTime`);
 
 const SEARCH_CLIENTS_QUERY = `
   query searchClients($input: ListInfoInput!) {
@@ -143,14 +158,20 @@ export function getClientsTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
               default: 50,
             },
             cursor: {
               type: "string",
               description: "Pagination cursor for fetching next page",
             },
+            ...paginationProperties,
+            format: formatProperty,
+            fields: fieldsProperty(CLIENT_FIELDS, "client"),
           },
         },
+        outputSchema: listOutputSchema("clients", CLIENT_SCHEMA),
       },
       {
         name: "superops_clients_get",
@@ -162,9 +183,11 @@ export function getClientsTools(): DomainTools {
               type: "string",
               description: "The unique account ID of the client",
             },
+            fields: fieldsProperty(CLIENT_FIELDS, "client"),
           },
           required: ["accountId"],
         },
+        outputSchema: entityOutputSchema(CLIENT_SCHEMA),
       },
       {
         name: "superops_clients_search",
@@ -180,16 +203,18 @@ export function getClientsTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 20)",
+              minimum: 1,
               default: 20,
             },
           },
           required: ["query"],
         },
+        outputSchema: listOutputSchema("clients", CLIENT_SCHEMA),
       },
     ],
 
-    async handleCall(name, args) {
-      const client = getClient();
+    async handleCall(name, args, context) {
+      const client = getClient(context);
 
       try {
         switch (name) {
@@ -199,46 +224,52 @@ export function getClientsTools(): DomainTools {
               stage?: string;
               max?: number;
               cursor?: string;
+              all?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
+              fields?: string[];
             };
 
             const filter: Record<string, unknown> = {};
             if (params.status) filter.status = params.status;
             if (params.stage) filter.stage = params.stage;
 
-            const response = await client.query<ListClientsResponse>(LIST_CLIENTS_QUERY, {
-              input: {
-                first: Math.min(params.max ?? 50, 500),
-                ...(params.cursor && { after: params.cursor }),
-                ...(Object.keys(filter).length > 0 && { filter }),
-                orderBy: { field: "name", direction: "ASC" },
-              },
-            });
+            const query = params.fields
+              ? listClientsQuery(selectFields(params.fields, CLIENT_FIELDS, "accountId"))
+              : LIST_CLIENTS_QUERY;
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getClientList, null, 2),
+            const list = await fetchList<Client>(params, 50, async (page) => {
+              const response = await client.query<ListClientsResponse>(query, {
+                input: {
+                  ...page,
+                  ...(Object.keys(filter).length > 0 && { filter }),
+                  orderBy: { field: "name", direction: "ASC" },
                 },
-              ],
-            };
+              });
+              return {
+                items: response.getClientList.clients,
+                listInfo: response.getClientList.listInfo,
+              };
+            });
+
+            return listResult("clients", list, params.format);
           }
 
           case "superops_clients_get": {
-            const { accountId } = args as { accountId: string };
+            const { accountId, fields } = args as { accountId: string; fields?: string[] };
+            const query = fields
+              ? getClientQuery(selectFields(fields, CLIENT_FIELDS, "accountId"))
+              : GET_CLIENT_QUERY;
 
-            const response = await client.query<GetClientResponse>(GET_CLIENT_QUERY, {
+            const response = await client.query<GetClientResponse>(query, {
               input: { accountId },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getClient, null, 2),
-                },
-              ],
-            };
+            if (!response.getClient) {
+              throw new SuperOpsError(`Client not found: ${accountId}`, { kind: "not_found" });
+            }
+
+            return jsonResult(response.getClient);
           }
 
           case "superops_clients_search": {
@@ -256,14 +287,7 @@ export function getClientsTools(): DomainTools {
               },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getClientList, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response.getClientList);
           }
 
           default:
@@ -273,11 +297,7 @@ export function getClientsTools(): DomainTools {
             };
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${message}` }],
-          isError: true,
-        };
+        return errorResult(error, this.tools.find((tool) => tool.name === name));
       }
     },
   };
@@ -18,11 +18,16 @@ import { getClient } from "../client.js";
 import { getCustomTools } from "./custom.js";
 
 describe("Custom Domain", () => {
-  let mockClient: { query: ReturnType<typeof vi.fn>; mutate: ReturnType<typeof vi.fn> };
+  let mockClient: {
+    query: ReturnType<typeof vi.fn>;
+    queryPartial: ReturnType<typeof vi.fn>;
+    mutate: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(() => {
     mockClient = {
       query: vi.fn(),
+      queryPartial: vi.fn(),
       mutate: vi.fn(),
     };
     vi.mocked(getClient).mockReturnValue(mockClient as unknown as ReturnType<typeof getClient>);
@@ -118,6 +123,31 @@ describe("Custom Domain", () => {
       expect(result.content[0].text).toContain("user-123");
     });
 
+    it("returns partial data and all errors when allowPartial is set", async () => {
+      const partial = {
+        data: { getClient: { name: "Acme", sites: null } },
+        errors: [
+          { message: "Sites unavailable", path: ["getClient", "sites"] },
+          { message: "Contacts unavailable", path: ["getClient", "contacts"] },
+        ],
+      };
+      mockClient.queryPartial.mockResolvedValue(partial);
+
+      const domain = getCustomTools();
+      const result = await domain.handleCall("superops_custom_query", {
+        query: "query { getClient { name sites contacts } }",
+        allowPartial: true,
+      });
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(mockClient.queryPartial).toHaveBeenCalledWith(
+        "query { getClient { name sites contacts } }",
+        undefined
+      );
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text)).toEqual(partial);
+    });
+
     it("handles complex nested variables", async () => {
       const mockResponse = {
         searchEntities: {
@@ -323,6 +353,18 @@ describe("Custom Domain", () => {
     });
   });
 
+  describe("Request context", () => {
+    it("gets the client for the caller's context", async () => {
+      mockClient.query.mockResolvedValue({});
+      const context = { signal: new AbortController().signal };
+
+      const domain = getCustomTools();
+      await domain.handleCall("superops_custom_query", { query: "query { ok }" }, context);
+
+      expect(getClient).toHaveBeenCalledWith(context);
+    });
+  });
+
   describe("Error handling", () => {
     it("returns error for unknown tool", async () => {
       const domain = getCustomTools();
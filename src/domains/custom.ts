@@ -5,6 +5,9 @@
  */
 
 import { getClient } from "../client.js";
+import { errorResult } from "../errors.js";
+import { jsonResult } from "../format.js";
+import { outputSchema } from "../schemas.js";
 import type { DomainTools } from "../types.js";
 
 export function getCustomTools(): DomainTools {
@@ -25,9 +28,16 @@ export function getCustomTools(): DomainTools {
               type: "object",
               description: "Variables to pass to the query",
             },
+            allowPartial: {
+              type: "boolean",
+              description:
+                "Return { data, errors } with any partial data and every GraphQL error, instead of failing when some fields error (default: false)",
+              default: false,
+            },
           },
           required: ["query"],
         },
+        outputSchema: outputSchema({}),
       },
       {
         name: "superops_custom_mutation",
@@ -47,11 +57,12 @@ export function getCustomTools(): DomainTools {
           },
           required: ["mutation"],
         },
+        outputSchema: outputSchema({}),
       },
     ],
 
-    async handleCall(name, args) {
-      const client = getClient();
+    async handleCall(name, args, context) {
+      const client = getClient(context);
 
       try {
         switch (name) {
@@ -59,18 +70,14 @@ export function getCustomTools(): DomainTools {
             const params = args as {
               query: string;
               variables?: Record<string, unknown>;
+              allowPartial?: boolean;
             };
 
-            const response = await client.query(params.query, params.variables);
+            const response = params.allowPartial
+              ? await client.queryPartial(params.query, params.variables)
+              : await client.query<Record<string, unknown>>(params.query, params.variables);
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response);
           }
 
           case "superops_custom_mutation": {
@@ -79,16 +86,12 @@ export function getCustomTools(): DomainTools {
               variables?: Record<string, unknown>;
             };
 
-            const response = await client.mutate(params.mutation, params.variables);
+            const response = await client.mutate<Record<string, unknown>>(
+              params.mutation,
+              params.variables
+            );
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response);
           }
 
           default:
@@ -98,11 +101,7 @@ export function getCustomTools(): DomainTools {
             };
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${message}` }],
-          isError: true,
-        };
+        return errorResult(error, this.tools.find((tool) => tool.name === name));
       }
     },
   };
@@ -476,5 +476,24 @@ describe("Technicians Domain", () => {
       const parsed = JSON.parse(result.content[0].text);
       expect(parsed).toEqual(mockResponse.getTechGroupList);
     });
+
+    it("returns the result as structured content", async () => {
+      const mockResponse = {
+        getTechnician: { id: "1", name: "Test Tech", email: "test@example.com" },
+      };
+      mockClient.query.mockResolvedValue(mockResponse);
+
+      const domain = getTechniciansTools();
+      const result = await domain.handleCall("superops_technicians_get", {
+        technicianId: "1",
+      });
+
+      expect(result.structuredContent).toEqual(mockResponse.getTechnician);
+      const tool = domain.tools.find((t) => t.name === "superops_technicians_get");
+      expect(tool?.outputSchema).toMatchObject({
+        type: "object",
+        properties: { isActive: { type: ["boolean", "null"] } },
+      });
+    });
   });
 });
@@ -5,6 +5,22 @@
  */
 
 import { getClient } from "../client.js";
+import { SuperOpsError, errorResult } from "../errors.js";
+import { formatProperty, jsonResult, listResult, type OutputFormat } from "../format.js";
+import { fetchList, paginationProperties } from "../pagination.js";
+import {
+  BOOLEAN,
+  LIST_INFO_SCHEMA,
+  NUMBER,
+  STRING,
+  TECH_GROUP_SCHEMA,
+  TECHNICIAN_SCHEMA,
+  arrayOf,
+  entityOutputSchema,
+  listOutputSchema,
+  objectOf,
+  outputSchema,
+} from "../schemas.js";
 import type { DomainTools, Technician, ListInfo } from "../types.js";
 
 const LIST_TECHNICIANS_QUERY = `
@@ -96,6 +112,23 @@ interface ExtendedTechnician extends Technician {
   createdTime?: string;
 }
 
+const EXTENDED_TECHNICIAN_SCHEMA = objectOf<ExtendedTechnician>({
+  id: STRING,
+  name: STRING,
+  email: STRING,
+  phone: STRING,
+  isActive: BOOLEAN,
+  role: STRING,
+  department: STRING,
+  teams: arrayOf(TECH_GROUP_SCHEMA),
+  manager: TECHNICIAN_SCHEMA,
+  skills: arrayOf(STRING),
+  ticketCount: NUMBER,
+  averageResponseTime: NUMBER,
+  lastLoginTime: STRING,
+  createdTime: STRING,
+});
+
 interface ListTechniciansResponse {
   getTechnicianList: {
     technicians: ExtendedTechnician[];
@@ -115,6 +148,14 @@ interface TechGroup {
   members?: { id: string; name: string }[];
 }
 
+const GROUP_SCHEMA = objectOf<TechGroup>({
+  id: STRING,
+  name: STRING,
+  description: STRING,
+  memberCount: NUMBER,
+  members: arrayOf(TECHNICIAN_SCHEMA),
+});
+
 interface ListTechGroupsResponse {
   getTechGroupList: {
     techGroups: TechGroup[];
@@ -144,14 +185,19 @@ export function getTechniciansTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
               default: 50,
             },
             cursor: {
               type: "string",
               description: "Pagination cursor for fetching next page",
             },
+            ...paginationProperties,
+            format: formatProperty,
           },
         },
+        outputSchema: listOutputSchema("technicians", EXTENDED_TECHNICIAN_SCHEMA),
       },
       {
         name: "superops_technicians_get",
@@ -166,6 +212,7 @@ export function getTechniciansTools(): DomainTools {
           },
           required: ["technicianId"],
         },
+        outputSchema: entityOutputSchema(EXTENDED_TECHNICIAN_SCHEMA),
       },
       {
         name: "superops_technicians_groups",
@@ -176,15 +223,20 @@ export function getTechniciansTools(): DomainTools {
             max: {
               type: "number",
               description: "Maximum number of results (default: 50)",
+              minimum: 1,
               default: 50,
             },
           },
         },
+        outputSchema: outputSchema({
+          techGroups: arrayOf(GROUP_SCHEMA),
+          listInfo: LIST_INFO_SCHEMA,
+        }),
       },
     ],
 
-    async handleCall(name, args) {
-      const client = getClient();
+    async handleCall(name, args, context) {
+      const client = getClient(context);
 
       try {
         switch (name) {
@@ -194,32 +246,33 @@ export function getTechniciansTools(): DomainTools {
               teamId?: string;
               max?: number;
               cursor?: string;
+              all?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
             };
 
             const filter: Record<string, unknown> = {};
             if (params.activeOnly !== false) filter.isActive = true;
             if (params.teamId) filter.teams = { id: params.teamId };
 
-            const response = await client.query<ListTechniciansResponse>(
-              LIST_TECHNICIANS_QUERY,
-              {
-                input: {
-                  first: Math.min(params.max ?? 50, 500),
-                  ...(params.cursor && { after: params.cursor }),
-                  ...(Object.keys(filter).length > 0 && { filter }),
-                  orderBy: { field: "name", direction: "ASC" },
-                },
-              }
-            );
-
-            return {
-              content: [
+            const list = await fetchList<Technician>(params, 50, async (page) => {
+              const response = await client.query<ListTechniciansResponse>(
+                LIST_TECHNICIANS_QUERY,
                 {
-                  type: "text",
-                  text: JSON.stringify(response.getTechnicianList, null, 2),
-                },
-              ],
-            };
+                  input: {
+                    ...page,
+                    ...(Object.keys(filter).length > 0 && { filter }),
+                    orderBy: { field: "name", direction: "ASC" },
+                  },
+                }
+              );
+              return {
+                items: response.getTechnicianList.technicians,
+                listInfo: response.getTechnicianList.listInfo,
+              };
+            });
+
+            return listResult("technicians", list, params.format);
           }
 
           case "superops_technicians_get": {
@@ -229,14 +282,11 @@ export function getTechniciansTools(): DomainTools {
               input: { id: technicianId },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getTechnician, null, 2),
-                },
-              ],
-            };
+            if (!response.getTechnician) {
+              throw new SuperOpsError(`Technician not found: ${technicianId}`, { kind: "not_found" });
+            }
+
+            return jsonResult(response.getTechnician);
           }
 
           case "superops_technicians_groups": {
@@ -248,14 +298,7 @@ export function getTechniciansTools(): DomainTools {
               },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getTechGroupList, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response.getTechGroupList);
           }
 
           default:
@@ -265,11 +308,7 @@ export function getTechniciansTools(): DomainTools {
             };
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${message}` }],
-          isError: true,
-        };
+        return errorResult(error, this.tools.find((tool) => tool.name === name));
       }
     },
   };
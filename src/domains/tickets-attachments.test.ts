@@ -0,0 +1,131 @@
+/**
+ * Ticket Attachment Tests
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_MAX_ATTACHMENT_BYTES,
+  assertWithinLimit,
+  attachmentContent,
+  base64Size,
+  decodeText,
+  encodeText,
+  getMaxAttachmentBytes,
+  isTextContentType,
+  normalizeBase64,
+  uploadFile,
+} from "./tickets-attachments.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getMaxAttachmentBytes", () => {
+  it("defaults to 10 MB", () => {
+    vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "");
+    expect(getMaxAttachmentBytes()).toBe(DEFAULT_MAX_ATTACHMENT_BYTES);
+  });
+
+  it("reads the limit from the environment", () => {
+    vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "2048");
+    expect(getMaxAttachmentBytes()).toBe(2048);
+    expect(() => assertWithinLimit(2048, "a.txt")).not.toThrow();
+    expect(() => assertWithinLimit(2049, "a.txt")).toThrow(
+      "a.txt is 2049 bytes, over the 2048 byte attachment limit."
+    );
+  });
+});
+
+describe("isTextContentType", () => {
+  it("recognises text types", () => {
+    expect(isTextContentType("text/plain")).toBe(true);
+    expect(isTextContentType("text/csv; charset=utf-8")).toBe(true);
+    expect(isTextContentType("application/json")).toBe(true);
+    expect(isTextContentType("application/vnd.api+json")).toBe(true);
+    expect(isTextContentType("image/svg+xml")).toBe(true);
+  });
+
+  it("treats other and missing types as binary", () => {
+    expect(isTextContentType("image/png")).toBe(false);
+    expect(isTextContentType("application/pdf")).toBe(false);
+    expect(isTextContentType(undefined)).toBe(false);
+  });
+});
+
+describe("base64 helpers", () => {
+  it("strips whitespace and data URL prefixes", () => {
+    expect(normalizeBase64("data:image/png;base64,iVBO\nRw==")).toBe("iVBORw==");
+  });
+
+  it("rejects invalid base64", () => {
+    expect(() => normalizeBase64("not base64!")).toThrow("`content` must be base64-encoded.");
+    expect(() => normalizeBase64("abc")).toThrow("`content` must be base64-encoded.");
+  });
+
+  it("computes the decoded size", () => {
+    expect(base64Size("")).toBe(0);
+    expect(base64Size("aA==")).toBe(1);
+    expect(base64Size("aGk=")).toBe(2);
+    expect(base64Size("aGVsbG8h")).toBe(6);
+  });
+
+  it("round-trips UTF-8 text", () => {
+    const text = "Café ☕ error log";
+    expect(decodeText(encodeText(text))).toBe(text);
+    expect(base64Size(encodeText(text))).toBe(new TextEncoder().encode(text).length);
+  });
+});
+
+describe("attachmentContent", () => {
+  it("returns text files as a text block", () => {
+    const attachment = { attachmentId: "a", fileName: "a.csv", contentType: "text/csv" };
+
+    expect(attachmentContent("1", attachment, "YSxi")).toEqual({ type: "text", text: "a,b" });
+  });
+
+  it("embeds other files as a resource, defaulting the MIME type", () => {
+    expect(attachmentContent("1", { attachmentId: "a", fileName: "a.bin" }, "AAE=")).toEqual({
+      type: "resource",
+      resource: {
+        uri: "superops://tickets/1/attachments/a",
+        mimeType: "application/octet-stream",
+        blob: "AAE=",
+      },
+    });
+  });
+});
+
+describe("uploadFile", () => {
+  it("takes base64 content with the given name and type", () => {
+    expect(uploadFile({ fileName: "a.png", contentType: "image/png", content: "AAE=" })).toEqual({
+      fileName: "a.png",
+      contentType: "image/png",
+      content: "AAE=",
+    });
+  });
+
+  it("takes the name and type from a blob resource", () => {
+    const resource = { uri: "file:///shots/screen.png", mimeType: "image/png", blob: "AAE=" };
+
+    expect(uploadFile({ resource })).toEqual({ fileName: "screen.png", contentType: "image/png", content: "AAE=" });
+  });
+
+  it("defaults the content type", () => {
+    expect(uploadFile({ fileName: "a.bin", content: "AAE=" }).contentType).toBe(
+      "application/octet-stream"
+    );
+  });
+
+  it("rejects both or neither of content and resource", () => {
+    expect(() => uploadFile({ fileName: "a" })).toThrow("Provide either content or resource");
+    expect(() =>
+      uploadFile({ fileName: "a", content: "AAE=", resource: { uri: "x", blob: "AAE=" } })
+    ).toThrow("Provide either content or resource");
+  });
+
+  it("rejects a resource with no contents", () => {
+    expect(() => uploadFile({ resource: { uri: "file:///a.txt" } })).toThrow(
+      "The resource must have text or blob contents."
+    );
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Ticket Attachments
+ *
+ * Size limits and base64 handling for the attachment tools. Downloads return
+ * text files inline and anything else as an MCP embedded resource; uploads
+ * take base64 data or an embedded resource from the client.
+ */
+
+import { readEnvNumber } from "../env.js";
+import { SuperOpsError } from "../errors.js";
+import type { Attachment, EmbeddedResource, ToolContent } from "../types.js";
+
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+// Content types returned as text rather than base64, besides text/*
+const TEXT_CONTENT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/x-sh",
+  "application/sql",
+];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Characters per String.fromCharCode call when encoding, to stay under argument limits
+const ENCODE_CHUNK = 0x8000;
+
+/**
+ * Largest attachment the tools will download or upload, in bytes.
+ */
+export function getMaxAttachmentBytes(): number {
+  return readEnvNumber("SUPEROPS_MAX_ATTACHMENT_BYTES", DEFAULT_MAX_ATTACHMENT_BYTES, 1);
+}
+
+/**
+ * Refuse a file larger than the configured limit.
+ */
+export function assertWithinLimit(bytes: number, fileName: string, field?: string): void {
+  const max = getMaxAttachmentBytes();
+  if (bytes > max) {
+    throw new SuperOpsError(
+      `${fileName} is ${bytes} bytes, over the ${max} byte attachment limit. Raise SUPEROPS_MAX_ATTACHMENT_BYTES to allow larger files.`,
+      { kind: "validation", field }
+    );
+  }
+}
+
+/**
+ * Whether a file of this content type reads as text. Parameters such as
+ * `; charset=utf-8` are ignored.
+ */
+export function isTextContentType(contentType?: string): boolean {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (!type) {
+    return false;
+  }
+  return (
+    type.startsWith("text/") ||
+    type.endsWith("+json") ||
+    type.endsWith("+xml") ||
+    TEXT_CONTENT_TYPES.includes(type)
+  );
+}
+
+/**
+ * Strip whitespace and any `data:<type>;base64,` prefix from base64 data,
+ * rejecting anything that is not valid base64.
+ */
+export function normalizeBase64(data: string, field = "content"): string {
+  const encoded = data.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+  if (encoded.length % 4 !== 0 || !BASE64_PATTERN.test(encoded)) {
+    throw new SuperOpsError(`\`${field}\` must be base64-encoded.`, {
+      kind: "validation",
+      field,
+    });
+  }
+  return encoded;
+}
+
+/**
+ * Size in bytes of the data that base64 string decodes to.
+ */
+export function base64Size(encoded: string): number {
+  const padding = encoded.endsWith("==") ? 2 : encoded.endsWith("=") ? 1 : 0;
+  return (encoded.length / 4) * 3 - padding;
+}
+
+/**
+ * Decode base64 data as UTF-8 text.
+ */
+export function decodeText(encoded: string): string {
+  const binary = atob(encoded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode text as base64 UTF-8.
+ */
+export function encodeText(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK));
+  }
+  return btoa(binary);
+}
+
+export function attachmentUri(ticketId: string, attachmentId: string): string {
+  return `superops://tickets/${ticketId}/attachments/${attachmentId}`;
+}
+
+/**
+ * Tool result content for a downloaded attachment: a text block for text
+ * files, or an embedded resource holding the base64 data.
+ */
+export function attachmentContent(
+  ticketId: string,
+  attachment: Attachment,
+  encoded: string
+): ToolContent {
+  if (isTextContentType(attachment.contentType)) {
+    return { type: "text", text: decodeText(encoded) };
+  }
+  return {
+    type: "resource",
+    resource: {
+      uri: attachmentUri(ticketId, attachment.attachmentId),
+      mimeType: attachment.contentType ?? DEFAULT_CONTENT_TYPE,
+      blob: encoded,
+    },
+  };
+}
+
+export interface UploadFile {
+  fileName: string;
+  contentType: string;
+  // Base64 data
+  content: string;
+}
+
+/**
+ * The file to upload, from base64 `content` or an embedded `resource`.
+ * fileName and contentType default to the resource's URI and MIME type.
+ */
+export function uploadFile(args: {
+  fileName?: string;
+  contentType?: string;
+  content?: string;
+  resource?: EmbeddedResource;
+}): UploadFile {
+  if (Boolean(args.content) === Boolean(args.resource)) {
+    throw new SuperOpsError("Provide either content or resource, but not both.", {
+      kind: "validation",
+    });
+  }
+
+  let content: string;
+  if (args.content) {
+    content = normalizeBase64(args.content);
+  } else if (args.resource?.blob) {
+    content = normalizeBase64(args.resource.blob, "resource.blob");
+  } else if (typeof args.resource?.text === "string") {
+    content = encodeText(args.resource.text);
+  } else {
+    throw new SuperOpsError("The resource must have text or blob contents.", {
+      kind: "validation",
+      field: "resource",
+    });
+  }
+
+  const fileName =
+    args.fileName ?? args.resource?.uri.split(/[/\\]/).filter(Boolean).pop()?.split("?")[0];
+  if (!fileName) {
+    throw new SuperOpsError("Provide a fileName for the attachment.", {
+      kind: "validation",
+      field: "fileName",
+    });
+  }
+
+  return {
+    fileName,
+    contentType: args.contentType ?? args.resource?.mimeType ?? DEFAULT_CONTENT_TYPE,
+    content,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Bulk Ticket Update Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SuperOpsError } from "../errors.js";
+import { mapWithConcurrency, settleTicket, summarizeBulkUpdate } from "./tickets-bulk.js";
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order", async () => {
+    const delays = [30, 10, 20, 0];
+    const results = await mapWithConcurrency(delays, 2, async (delay) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+  });
+
+  it("runs at most `limit` calls at once", async () => {
+    let active = 0;
+    let peak = 0;
+    await mapWithConcurrency(Array.from({ length: 12 }, (_, i) => i), 3, async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active -= 1;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([]);
+  });
+});
+
+describe("settleTicket", () => {
+  it("records the ticket on success", async () => {
+    const ticket = { ticketId: "1", subject: "Printer" };
+
+    expect(await settleTicket("1", async () => ticket)).toEqual({
+      ticketId: "1",
+      success: true,
+      ticket,
+    });
+  });
+
+  it("records the error kind and message on failure", async () => {
+    const result = await settleTicket("1", async () => {
+      throw new SuperOpsError("Ticket not found: 1", { kind: "not_found" });
+    });
+
+    expect(result).toEqual({
+      ticketId: "1",
+      success: false,
+      error: "not_found: Ticket not found: 1",
+    });
+  });
+});
+
+describe("summarizeBulkUpdate", () => {
+  it("describes updates and failures", () => {
+    const text = summarizeBulkUpdate({
+      dryRun: false,
+      changes: { status: "Resolved" },
+      total: 2,
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { ticketId: "1", success: true },
+        { ticketId: "2", success: false, error: "not_found: Ticket not found: 2" },
+      ],
+    });
+
+    expect(text).toBe(
+      [
+        'Updated 1 of 2 ticket(s) with status = "Resolved". 1 failed.',
+        "- 1: updated",
+        "- 2: failed (not_found: Ticket not found: 2)",
+      ].join("\n")
+    );
+  });
+
+  it("previews the affected tickets in a dry run", () => {
+    const text = summarizeBulkUpdate({
+      dryRun: true,
+      changes: { priority: "High", assigneeId: "t2" },
+      total: 1,
+      succeeded: 1,
+      failed: 0,
+      results: [
+        {
+          ticketId: "1",
+          success: true,
+          ticket: {
+            ticketId: "1",
+            ticketNumber: "1001",
+            subject: "VPN down",
+            status: "Open",
+            priority: "Low",
+          },
+        },
+      ],
+    });
+
+    expect(text).toBe(
+      [
+        'Dry run: 1 ticket(s) would be updated with priority = "High", assigneeId = "t2".',
+        "- #1001 VPN down (Open, Low, Unassigned)",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Bulk Ticket Updates
+ *
+ * Runs per-ticket work for superops_tickets_bulk_update a few tickets at a
+ * time, and describes the outcome of each ticket.
+ */
+
+import { SuperOpsError } from "../errors.js";
+import type { Ticket } from "../types.js";
+
+// Tickets updated at once
+export const BULK_CONCURRENCY = 5;
+
+// Most tickets one bulk update may touch
+export const MAX_BULK_TICKETS = 500;
+
+export interface BulkTicketResult {
+  ticketId: string;
+  success: boolean;
+  // The updated ticket, or its current state in a dry run
+  ticket?: Ticket;
+  error?: string;
+}
+
+export interface BulkUpdateReport {
+  dryRun: boolean;
+  // The requested changes, as given to the tool
+  changes: Record<string, unknown>;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkTicketResult[];
+}
+
+/**
+ * Map `items` through `fn`, running at most `limit` calls at once. Results
+ * keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Run `fn` for one ticket, recording a failure instead of throwing.
+ */
+export async function settleTicket(
+  ticketId: string,
+  fn: () => Promise<Ticket>
+): Promise<BulkTicketResult> {
+  try {
+    return { ticketId, success: true, ticket: await fn() };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ticketId,
+      success: false,
+      error: error instanceof SuperOpsError ? `${error.kind}: ${message}` : message,
+    };
+  }
+}
+
+function describeChanges(changes: Record<string, unknown>): string {
+  return Object.entries(changes)
+    .map(([field, value]) => `${field} = ${JSON.stringify(value)}`)
+    .join(", ");
+}
+
+function describeTicket(ticket: Ticket): string {
+  const label = ticket.ticketNumber ? `#${ticket.ticketNumber}` : ticket.ticketId;
+  const state = [ticket.status, ticket.priority, ticket.assignee?.name ?? "Unassigned"]
+    .filter(Boolean)
+    .join(", ");
+  return `${[label, ticket.subject].filter(Boolean).join(" ")} (${state})`;
+}
+
+/**
+ * Human-readable summary of a bulk update, with a line per ticket.
+ */
+export function summarizeBulkUpdate(report: BulkUpdateReport): string {
+  const lines = report.results.map((result) => {
+    if (!result.success) {
+      return `- ${result.ticketId}: failed (${result.error})`;
+    }
+    if (report.dryRun) {
+      return `- ${result.ticket ? describeTicket(result.ticket) : result.ticketId}`;
+    }
+    return `- ${result.ticketId}: updated`;
+  });
+
+  const changes = describeChanges(report.changes);
+  const heading = report.dryRun
+    ? `Dry run: ${report.succeeded} ticket(s) would be updated with ${changes}.`
+    : `Updated ${report.succeeded} of ${report.total} ticket(s) with ${changes}.`;
+  const failures = report.failed > 0 ? ` ${report.failed} failed.` : "";
+  return [`${heading}${failures}`, ...lines].join("\n");
+}
@@ -0,0 +1,195 @@
+/**
+ * Ticket Filter Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SuperOpsError } from "../errors.js";
+import type { Ticket } from "../types.js";
+import { buildTicketFilter, buildTicketOrder, type SlaStatus } from "./tickets-filter.js";
+import { slaRow } from "./tickets-sla.js";
+
+describe("buildTicketFilter", () => {
+  it("returns an empty filter when nothing is set", () => {
+    expect(buildTicketFilter({})).toEqual({});
+  });
+
+  it("matches a keyword in the subject or description", () => {
+    expect(buildTicketFilter({ query: "Outlook crash" })).toEqual({
+      or: [
+        { subject: { contains: "Outlook crash" } },
+        { description: { contains: "Outlook crash" } },
+      ],
+    });
+  });
+
+  it("combines client, requester, category and tech group filters", () => {
+    expect(
+      buildTicketFilter({
+        clientId: "c1",
+        clientName: "Acme",
+        requesterEmail: "jane@acme.com",
+        categoryName: "Email",
+        techGroupName: "Tier 1",
+        status: ["Open"],
+        priority: ["High"],
+      })
+    ).toEqual({
+      client: { accountId: "c1", name: { contains: "Acme" } },
+      requester: { email: "jane@acme.com" },
+      category: { name: "Email" },
+      techGroup: { name: "Tier 1" },
+      status: ["Open"],
+      priority: ["High"],
+    });
+  });
+
+  it("filters on unassigned tickets", () => {
+    expect(buildTicketFilter({ assigneeId: "t1", unassigned: true })).toEqual({
+      assignee: null,
+    });
+  });
+
+  it("builds date ranges as ISO timestamps", () => {
+    expect(
+      buildTicketFilter({
+        createdAfter: "2024-01-01",
+        createdBefore: "2024-01-08T12:00:00+02:00",
+        updatedAfter: "2024-02-01T00:00:00Z",
+      })
+    ).toEqual({
+      createdTime: {
+        after: "2024-01-01T00:00:00.000Z",
+        before: "2024-01-08T10:00:00.000Z",
+      },
+      lastUpdatedTime: { after: "2024-02-01T00:00:00.000Z" },
+    });
+  });
+
+  describe("slaStatus", () => {
+    const now = new Date("2024-01-01T12:00:00Z");
+    const flagged = [{ firstResponseViolated: true }, { resolutionViolated: true }];
+    const unmetDue = (range: Record<string, string>) => [
+      { firstResponseTime: null, firstResponseDueTime: range },
+      { resolutionTime: null, resolutionDueTime: range },
+    ];
+    const breached = {
+      or: [...flagged, ...unmetDue({ before: "2024-01-01T12:00:00.000Z" })],
+    };
+
+    // Whether a ticket matches a filter, reading conditions as the API does
+    function matches(filter: Record<string, unknown>, ticket: Partial<Ticket>): boolean {
+      return Object.entries(filter).every(([key, condition]) => {
+        const conditions = condition as Record<string, unknown>[];
+        if (key === "or") return conditions.some((c) => matches(c, ticket));
+        if (key === "and") return conditions.every((c) => matches(c, ticket));
+        if (key === "not") return !matches(condition as Record<string, unknown>, ticket);
+        const value = ticket[key as keyof Ticket];
+        if (condition === null) return value == null;
+        if (typeof condition !== "object") return value === condition;
+        const { after, before } = condition as { after?: string; before?: string };
+        const time = typeof value === "string" ? Date.parse(value) : NaN;
+        return (
+          !Number.isNaN(time) &&
+          (after === undefined || time >= Date.parse(after)) &&
+          (before === undefined || time < Date.parse(before))
+        );
+      });
+    }
+
+    function statusesOf(ticket: Partial<Ticket>): SlaStatus[] {
+      return (["breached", "at_risk", "ok"] as const).filter((slaStatus) =>
+        matches(buildTicketFilter({ slaStatus }, now), ticket)
+      );
+    }
+
+    it("matches tickets that missed a target or are unmet past due as breached", () => {
+      expect(buildTicketFilter({ slaStatus: "breached" }, now)).toEqual(breached);
+    });
+
+    it("matches unmet targets falling due within the window as at risk", () => {
+      expect(buildTicketFilter({ slaStatus: "at_risk" }, now)).toEqual({
+        and: [
+          { not: breached },
+          {
+            or: unmetDue({
+              after: "2024-01-01T12:00:00.000Z",
+              before: "2024-01-01T16:00:00.000Z",
+            }),
+          },
+        ],
+      });
+    });
+
+    it("matches everything else as ok", () => {
+      expect(buildTicketFilter({ slaStatus: "ok" }, now)).toEqual({
+        not: { or: [...flagged, ...unmetDue({ before: "2024-01-01T16:00:00.000Z" })] },
+      });
+    });
+
+    it("classes an overdue ticket without a violated flag as breached, like the SLA report", () => {
+      const overdue: Partial<Ticket> = {
+        ticketId: "1",
+        subject: "Printer offline",
+        createdTime: "2024-01-01T11:00:00Z",
+        firstResponseDueTime: "2024-01-01T11:50:00Z",
+        resolutionDueTime: "2024-01-02T11:00:00Z",
+      };
+
+      expect(statusesOf(overdue)).toEqual(["breached"]);
+      expect(slaRow(overdue as Ticket, now).slaStatus).toBe("breached");
+    });
+
+    it("classes each ticket under exactly one status, agreeing with the SLA report", () => {
+      const tickets: Partial<Ticket>[] = [
+        { firstResponseDueTime: "2024-01-01T14:00:00Z" },
+        { firstResponseDueTime: "2024-01-01T20:00:00Z" },
+        { firstResponseDueTime: "2024-01-01T11:00:00Z", firstResponseTime: "2024-01-01T10:00:00Z" },
+        { resolutionDueTime: "2024-01-01T13:00:00Z", resolutionViolated: true },
+        {},
+      ];
+
+      for (const ticket of tickets) {
+        const row = slaRow({ ticketId: "1", subject: "Test", ...ticket } as Ticket, now);
+        expect(statusesOf(ticket)).toEqual([row.slaStatus]);
+      }
+    });
+
+    it("combines with a keyword search", () => {
+      expect(buildTicketFilter({ query: "VPN", slaStatus: "breached" }, now)).toEqual({
+        and: [
+          { or: [{ subject: { contains: "VPN" } }, { description: { contains: "VPN" } }] },
+          breached,
+        ],
+      });
+    });
+  });
+
+  it("rejects a date that is not ISO 8601", () => {
+    let caught: unknown;
+    try {
+      buildTicketFilter({ createdAfter: "last week" });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(SuperOpsError);
+    expect((caught as SuperOpsError).kind).toBe("validation");
+    expect((caught as SuperOpsError).field).toBe("createdAfter");
+    expect((caught as SuperOpsError).message).toContain(
+      'Invalid date for createdAfter: "last week"'
+    );
+  });
+});
+
+describe("buildTicketOrder", () => {
+  it("sorts newest first by default", () => {
+    expect(buildTicketOrder({})).toEqual({ field: "createdTime", direction: "DESC" });
+  });
+
+  it("uses the requested field and direction", () => {
+    expect(buildTicketOrder({ orderBy: "lastUpdatedTime", orderDirection: "asc" })).toEqual({
+      field: "lastUpdatedTime",
+      direction: "ASC",
+    });
+  });
+});
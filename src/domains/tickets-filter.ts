@@ -0,0 +1,202 @@
+/**
+ * Ticket Filters
+ *
+ * Builds the `filter` and `orderBy` parts of a ticket list query from tool
+ * arguments, shared by superops_tickets_list and superops_tickets_search.
+ */
+
+import { SuperOpsError } from "../errors.js";
+
+export interface TicketFilterArgs {
+  query?: string;
+  status?: string[];
+  priority?: string[];
+  clientId?: string;
+  clientName?: string;
+  assigneeId?: string;
+  unassigned?: boolean;
+  requesterEmail?: string;
+  categoryName?: string;
+  techGroupName?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  slaStatus?: SlaStatus;
+}
+
+export type SlaStatus = "breached" | "at_risk" | "ok";
+
+// An unmet SLA target falling due within this many hours is at risk
+export const AT_RISK_WINDOW_HOURS = 4;
+
+export interface TicketOrderArgs {
+  orderBy?: string;
+  orderDirection?: "asc" | "desc";
+}
+
+export const TICKET_ORDER_FIELDS = [
+  "createdTime",
+  "lastUpdatedTime",
+  "priority",
+  "status",
+  "subject",
+  "ticketNumber",
+];
+
+// Input schema properties for the date range filters
+export const dateRangeProperties = {
+  createdAfter: {
+    type: "string",
+    description: "Only tickets created at or after this ISO 8601 date or time",
+  },
+  createdBefore: {
+    type: "string",
+    description: "Only tickets created before this ISO 8601 date or time",
+  },
+  updatedAfter: {
+    type: "string",
+    description: "Only tickets last updated at or after this ISO 8601 date or time",
+  },
+  updatedBefore: {
+    type: "string",
+    description: "Only tickets last updated before this ISO 8601 date or time",
+  },
+};
+
+export const slaStatusProperty = {
+  type: "string",
+  description: `Filter by SLA status: breached (a first response or resolution target was missed or is unmet past its due time), at_risk (an unmet target falls due within ${AT_RISK_WINDOW_HOURS} hours), or ok`,
+  enum: ["breached", "at_risk", "ok"],
+};
+
+// Input schema properties for choosing the sort order
+export const orderProperties = {
+  orderBy: {
+    type: "string",
+    description: "Field to sort by (default: createdTime)",
+    enum: TICKET_ORDER_FIELDS,
+    default: "createdTime",
+  },
+  orderDirection: {
+    type: "string",
+    description: "Sort direction (default: desc)",
+    enum: ["asc", "desc"],
+    default: "desc",
+  },
+};
+
+/**
+ * Normalise a date argument to an ISO 8601 timestamp. A bare date such as
+ * "2024-01-31" is taken as midnight UTC.
+ *
+ * @throws SuperOpsError (validation) if the value is not a date
+ */
+export function parseDate(value: string, field: string): string {
+  const time = Date.parse(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(time)) {
+    throw new SuperOpsError(
+      `Invalid date for ${field}: "${value}". Use an ISO 8601 date such as 2024-01-31 or 2024-01-31T09:00:00Z.`,
+      { kind: "validation", field }
+    );
+  }
+  return new Date(time).toISOString();
+}
+
+// A range filter on one timestamp field, or undefined if neither bound is set
+function dateRange(
+  args: TicketFilterArgs,
+  after: "createdAfter" | "updatedAfter",
+  before: "createdBefore" | "updatedBefore"
+): Record<string, string> | undefined {
+  const range: Record<string, string> = {};
+  if (args[after]) range.after = parseDate(args[after], after);
+  if (args[before]) range.before = parseDate(args[before], before);
+  return Object.keys(range).length > 0 ? range : undefined;
+}
+
+/**
+ * Filter for tickets with the given SLA status, classed as
+ * superops_tickets_sla_report classes them: breached once a target is flagged
+ * as violated or unmet past its due time, at risk while an unmet target falls
+ * due within the window, and ok otherwise.
+ */
+function slaCondition(status: SlaStatus, now: Date): Record<string, unknown> {
+  const current = now.toISOString();
+  const soon = new Date(now.getTime() + AT_RISK_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const flagged = [{ firstResponseViolated: true }, { resolutionViolated: true }];
+  const unmetDue = (range: Record<string, string>) => [
+    { firstResponseTime: null, firstResponseDueTime: range },
+    { resolutionTime: null, resolutionDueTime: range },
+  ];
+
+  const breached = { or: [...flagged, ...unmetDue({ before: current })] };
+  switch (status) {
+    case "breached":
+      return breached;
+    case "at_risk":
+      return { and: [{ not: breached }, { or: unmetDue({ after: current, before: soon }) }] };
+    default:
+      return { not: { or: [...flagged, ...unmetDue({ before: soon })] } };
+  }
+}
+
+/**
+ * Build a ticket list filter from tool arguments. Returns an empty object
+ * when no filter is set.
+ *
+ * @param now the time SLA due dates are compared against
+ */
+export function buildTicketFilter(
+  args: TicketFilterArgs,
+  now = new Date()
+): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+
+  // Keyword and SLA conditions are both `or` groups, so combine them with
+  // `and` when both are set
+  const conditions: Record<string, unknown>[] = [];
+  if (args.query) {
+    conditions.push({
+      or: [{ subject: { contains: args.query } }, { description: { contains: args.query } }],
+    });
+  }
+  if (args.slaStatus) {
+    conditions.push(slaCondition(args.slaStatus, now));
+  }
+  if (conditions.length > 1) {
+    filter.and = conditions;
+  } else if (conditions.length === 1) {
+    Object.assign(filter, conditions[0]);
+  }
+  if (args.status) filter.status = args.status;
+  if (args.priority) filter.priority = args.priority;
+  if (args.clientId || args.clientName) {
+    filter.client = {
+      ...(args.clientId && { accountId: args.clientId }),
+      ...(args.clientName && { name: { contains: args.clientName } }),
+    };
+  }
+  if (args.assigneeId) filter.assignee = { id: args.assigneeId };
+  if (args.unassigned) filter.assignee = null;
+  if (args.requesterEmail) filter.requester = { email: args.requesterEmail };
+  if (args.categoryName) filter.category = { name: args.categoryName };
+  if (args.techGroupName) filter.techGroup = { name: args.techGroupName };
+
+  const created = dateRange(args, "createdAfter", "createdBefore");
+  if (created) filter.createdTime = created;
+  const updated = dateRange(args, "updatedAfter", "updatedBefore");
+  if (updated) filter.lastUpdatedTime = updated;
+
+  return filter;
+}
+
+/**
+ * Build a ticket list orderBy, newest first by default.
+ */
+export function buildTicketOrder(args: TicketOrderArgs): { field: string; direction: string } {
+  return {
+    field: args.orderBy ?? "createdTime",
+    direction: (args.orderDirection ?? "desc").toUpperCase(),
+  };
+}
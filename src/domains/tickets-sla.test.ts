@@ -0,0 +1,169 @@
+/**
+ * Ticket SLA Reporting Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Ticket } from "../types.js";
+import { buildSlaReport, evaluateTarget, summarizeSlaReport } from "./tickets-sla.js";
+
+const now = new Date("2024-01-01T12:00:00Z");
+
+function ticket(overrides: Partial<Ticket>): Ticket {
+  return {
+    ticketId: "t",
+    subject: "Subject",
+    createdTime: "2024-01-01T08:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("evaluateTarget", () => {
+  it("reports an unmet target due later as ok", () => {
+    expect(
+      evaluateTarget("2024-01-01T08:00:00Z", "2024-01-02T08:00:00Z", undefined, false, now)
+    ).toEqual({ targetMinutes: 1440, elapsedMinutes: 240, status: "ok" });
+  });
+
+  it("reports an unmet target due within the window as at risk", () => {
+    expect(
+      evaluateTarget("2024-01-01T08:00:00Z", "2024-01-01T15:00:00Z", undefined, false, now)
+    ).toEqual({ targetMinutes: 420, elapsedMinutes: 240, status: "at_risk" });
+  });
+
+  it("reports an unmet target past its due time as breached", () => {
+    expect(
+      evaluateTarget("2024-01-01T08:00:00Z", "2024-01-01T10:00:00Z", undefined, false, now).status
+    ).toBe("breached");
+  });
+
+  it("measures a met target up to when it was met", () => {
+    expect(
+      evaluateTarget(
+        "2024-01-01T08:00:00Z",
+        "2024-01-01T09:00:00Z",
+        "2024-01-01T08:30:00Z",
+        false,
+        now
+      )
+    ).toEqual({ targetMinutes: 60, elapsedMinutes: 30, status: "ok" });
+  });
+
+  it("reports a target met late as breached", () => {
+    expect(
+      evaluateTarget(
+        "2024-01-01T08:00:00Z",
+        "2024-01-01T09:00:00Z",
+        "2024-01-01T09:30:00Z",
+        undefined,
+        now
+      ).status
+    ).toBe("breached");
+  });
+
+  it("trusts the violated flag", () => {
+    expect(evaluateTarget(undefined, undefined, undefined, true, now)).toEqual({
+      status: "breached",
+    });
+  });
+
+  it("reports a ticket without a due time as ok", () => {
+    expect(evaluateTarget("2024-01-01T08:00:00Z", undefined, undefined, false, now)).toEqual({
+      elapsedMinutes: 240,
+      status: "ok",
+    });
+  });
+});
+
+describe("buildSlaReport", () => {
+  const tickets = [
+    ticket({
+      ticketId: "1",
+      client: { accountId: "a", name: "Acme" },
+      assignee: { id: "t1", name: "Tech One" },
+      firstResponseDueTime: "2024-01-01T09:00:00Z",
+      resolutionDueTime: "2024-01-03T08:00:00Z",
+    }),
+    ticket({
+      ticketId: "2",
+      client: { accountId: "a", name: "Acme" },
+      techGroup: { id: "g1", name: "Tier 1" },
+      firstResponseTime: "2024-01-01T08:10:00Z",
+      firstResponseDueTime: "2024-01-01T09:00:00Z",
+      resolutionDueTime: "2024-01-01T14:00:00Z",
+    }),
+    ticket({
+      ticketId: "3",
+      client: { accountId: "b", name: "Globex" },
+      resolutionDueTime: "2024-01-05T08:00:00Z",
+    }),
+  ];
+
+  it("summarises and groups breaches and near-breaches", () => {
+    const report = buildSlaReport(tickets, now);
+
+    expect(report.generatedAt).toBe("2024-01-01T12:00:00.000Z");
+    expect(report.summary).toEqual({ total: 3, breached: 1, atRisk: 1, ok: 1 });
+    expect(report.byClient).toEqual([{ name: "Acme", breached: 1, atRisk: 1 }]);
+    expect(report.byTechnician).toEqual([
+      { name: "Tech One", breached: 1, atRisk: 0 },
+      { name: "Unassigned", breached: 0, atRisk: 1 },
+    ]);
+    expect(report.byTechGroup).toEqual([
+      { name: "No tech group", breached: 1, atRisk: 0 },
+      { name: "Tier 1", breached: 0, atRisk: 1 },
+    ]);
+  });
+
+  it("lists breached tickets first and leaves out tickets within SLA", () => {
+    const report = buildSlaReport(tickets, now);
+
+    expect(report.tickets.map((row) => [row.ticketId, row.slaStatus])).toEqual([
+      ["1", "breached"],
+      ["2", "at_risk"],
+    ]);
+    expect(report.tickets[0].firstResponse).toEqual({
+      targetMinutes: 60,
+      elapsedMinutes: 240,
+      status: "breached",
+    });
+  });
+
+  it("keeps tickets within SLA when asked", () => {
+    const report = buildSlaReport(tickets, now, true);
+
+    expect(report.tickets.map((row) => row.ticketId)).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("summarizeSlaReport", () => {
+  it("describes the counts and groups", () => {
+    const report = buildSlaReport(
+      [
+        ticket({
+          ticketId: "1",
+          client: { accountId: "a", name: "Acme" },
+          resolutionViolated: true,
+        }),
+      ],
+      now
+    );
+
+    expect(summarizeSlaReport(report)).toBe(
+      [
+        "SLA report for 1 open ticket(s) as of 2024-01-01T12:00:00.000Z:",
+        "- Breached: 1",
+        "- At risk (due within 4 hours): 0",
+        "- Within SLA: 0",
+        "",
+        "By client:",
+        "- Acme: 1 breached, 0 at risk",
+        "",
+        "By technician:",
+        "- Unassigned: 1 breached, 0 at risk",
+        "",
+        "By tech group:",
+        "- No tech group: 1 breached, 0 at risk",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Ticket SLA Reporting
+ *
+ * Computes each open ticket's standing against its first response and
+ * resolution targets, and groups breaches and near-breaches by client,
+ * technician and tech group for superops_tickets_sla_report.
+ */
+
+import type { Ticket } from "../types.js";
+import { AT_RISK_WINDOW_HOURS, type SlaStatus } from "./tickets-filter.js";
+
+// Statuses of tickets still being worked on
+export const OPEN_STATUSES = ["Open", "In Progress", "Pending"];
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SlaTargetResult {
+  // Minutes from creation to the due time
+  targetMinutes?: number;
+  // Minutes from creation until the target was met, or until now if it is unmet
+  elapsedMinutes?: number;
+  status: SlaStatus;
+}
+
+export interface SlaRow {
+  ticketId: string;
+  ticketNumber?: string;
+  subject: string;
+  priority?: string;
+  client?: string;
+  assignee?: string;
+  techGroup?: string;
+  // The worse of the two targets
+  slaStatus: SlaStatus;
+  firstResponse: SlaTargetResult;
+  resolution: SlaTargetResult;
+}
+
+export interface SlaGroup {
+  name: string;
+  breached: number;
+  atRisk: number;
+}
+
+export interface SlaReport {
+  generatedAt: string;
+  summary: {
+    total: number;
+    breached: number;
+    atRisk: number;
+    ok: number;
+  };
+  byClient: SlaGroup[];
+  byTechnician: SlaGroup[];
+  byTechGroup: SlaGroup[];
+  tickets: SlaRow[];
+}
+
+const SEVERITY: Record<SlaStatus, number> = { ok: 0, at_risk: 1, breached: 2 };
+
+function minutesBetween(from: number, to: number): number {
+  return Math.round((to - from) / MINUTE_MS);
+}
+
+function timeOf(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Standing of one SLA target. A target is breached once it is flagged as
+ * violated or met (or still unmet) after its due time, and at risk while
+ * unmet and due within the at-risk window. Tickets without a due time are ok.
+ */
+export function evaluateTarget(
+  created: string | undefined,
+  due: string | undefined,
+  met: string | undefined,
+  violated: boolean | undefined,
+  now: Date
+): SlaTargetResult {
+  const createdTime = timeOf(created);
+  const dueTime = timeOf(due);
+  const metTime = timeOf(met);
+  const end = metTime ?? now.getTime();
+
+  const result: SlaTargetResult = { status: "ok" };
+  if (createdTime !== undefined) {
+    result.elapsedMinutes = minutesBetween(createdTime, end);
+    if (dueTime !== undefined) {
+      result.targetMinutes = minutesBetween(createdTime, dueTime);
+    }
+  }
+
+  if (violated || (dueTime !== undefined && end > dueTime)) {
+    result.status = "breached";
+  } else if (
+    metTime === undefined &&
+    dueTime !== undefined &&
+    dueTime - now.getTime() <= AT_RISK_WINDOW_HOURS * 60 * MINUTE_MS
+  ) {
+    result.status = "at_risk";
+  }
+  return result;
+}
+
+/**
+ * A ticket's report row, evaluating both targets at `now`.
+ */
+export function slaRow(ticket: Ticket, now: Date): SlaRow {
+  const firstResponse = evaluateTarget(
+    ticket.createdTime,
+    ticket.firstResponseDueTime,
+    ticket.firstResponseTime,
+    ticket.firstResponseViolated,
+    now
+  );
+  const resolution = evaluateTarget(
+    ticket.createdTime,
+    ticket.resolutionDueTime,
+    ticket.resolutionTime,
+    ticket.resolutionViolated,
+    now
+  );
+
+  return {
+    ticketId: ticket.ticketId,
+    ticketNumber: ticket.ticketNumber,
+    subject: ticket.subject,
+    priority: ticket.priority,
+    client: ticket.client?.name,
+    assignee: ticket.assignee?.name,
+    techGroup: ticket.techGroup?.name,
+    slaStatus:
+      SEVERITY[firstResponse.status] >= SEVERITY[resolution.status]
+        ? firstResponse.status
+        : resolution.status,
+    firstResponse,
+    resolution,
+  };
+}
+
+/**
+ * Count breached and at-risk rows per group, worst first. Groups with
+ * neither are left out.
+ */
+export function groupSla(rows: SlaRow[], groupOf: (row: SlaRow) => string): SlaGroup[] {
+  const groups = new Map<string, SlaGroup>();
+  for (const row of rows) {
+    if (row.slaStatus === "ok") {
+      continue;
+    }
+    const name = groupOf(row);
+    const group = groups.get(name) ?? { name, breached: 0, atRisk: 0 };
+    if (row.slaStatus === "breached") {
+      group.breached += 1;
+    } else {
+      group.atRisk += 1;
+    }
+    groups.set(name, group);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => b.breached - a.breached || b.atRisk - a.atRisk || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Build the SLA report for a set of open tickets.
+ *
+ * @param includeOk keep rows for tickets within SLA (counted in the summary either way)
+ */
+export function buildSlaReport(tickets: Ticket[], now: Date, includeOk = false): SlaReport {
+  const rows = tickets
+    .map((ticket) => slaRow(ticket, now))
+    .sort((a, b) => SEVERITY[b.slaStatus] - SEVERITY[a.slaStatus]);
+  const count = (status: SlaStatus) => rows.filter((row) => row.slaStatus === status).length;
+
+  return {
+    generatedAt: now.toISOString(),
+    summary: {
+      total: rows.length,
+      breached: count("breached"),
+      atRisk: count("at_risk"),
+      ok: count("ok"),
+    },
+    byClient: groupSla(rows, (row) => row.client ?? "No client"),
+    byTechnician: groupSla(rows, (row) => row.assignee ?? "Unassigned"),
+    byTechGroup: groupSla(rows, (row) => row.techGroup ?? "No tech group"),
+    tickets: includeOk ? rows : rows.filter((row) => row.slaStatus !== "ok"),
+  };
+}
+
+function describeGroups(title: string, groups: SlaGroup[]): string[] {
+  if (groups.length === 0) {
+    return [];
+  }
+  const lines = groups.map(
+    (group) => `- ${group.name}: ${group.breached} breached, ${group.atRisk} at risk`
+  );
+  return ["", `${title}:`, ...lines];
+}
+
+/**
+ * Human-readable summary of a report.
+ */
+export function summarizeSlaReport(report: SlaReport): string {
+  const { summary } = report;
+  return [
+    `SLA report for ${summary.total} open ticket(s) as of ${report.generatedAt}:`,
+    `- Breached: ${summary.breached}`,
+    `- At risk (due within ${AT_RISK_WINDOW_HOURS} hours): ${summary.atRisk}`,
+    `- Within SLA: ${summary.ok}`,
+    ...describeGroups("By client", report.byClient),
+    ...describeGroups("By technician", report.byTechnician),
+    ...describeGroups("By tech group", report.byTechGroup),
+  ].join("\n");
+}
@@ -0,0 +1,173 @@
+/**
+ * Ticket Template Tests
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, it, expect, vi } from "vitest";
+import {
+  findTemplate,
+  loadTemplates,
+  parseTemplates,
+  placeholdersOf,
+  renderReplyTemplate,
+  renderTicketTemplate,
+} from "./tickets-templates.js";
+
+const YAML_TEMPLATES = `
+tickets:
+  onboarding:
+    summary: New starter setup
+    subject: "Onboard {{name}}"
+    description: "Set up accounts for {{ name }}, starting {{startDate}}."
+    priority: Medium
+    category: Onboarding
+    techGroup: Service Desk
+replies:
+  awaiting-info:
+    message: "Hi {{name}}, could you send us a screenshot?"
+    status: Pending
+`;
+
+describe("parseTemplates", () => {
+  it("reads ticket templates and canned replies from YAML", () => {
+    expect(parseTemplates(YAML_TEMPLATES, "templates.yaml")).toEqual({
+      tickets: [
+        {
+          name: "onboarding",
+          summary: "New starter setup",
+          subject: "Onboard {{name}}",
+          description: "Set up accounts for {{ name }}, starting {{startDate}}.",
+          priority: "Medium",
+          category: "Onboarding",
+          techGroup: "Service Desk",
+        },
+      ],
+      replies: [
+        {
+          name: "awaiting-info",
+          message: "Hi {{name}}, could you send us a screenshot?",
+          status: "Pending",
+        },
+      ],
+    });
+  });
+
+  it("reads JSON", () => {
+    const json = JSON.stringify({ replies: { thanks: { message: "Thanks!" } } });
+
+    expect(parseTemplates(json, "templates.json")).toEqual({
+      tickets: [],
+      replies: [{ name: "thanks", message: "Thanks!" }],
+    });
+  });
+
+  it("treats an empty file as no templates", () => {
+    expect(parseTemplates("", "templates.yaml")).toEqual({ tickets: [], replies: [] });
+  });
+
+  it("names the template and field that is wrong", () => {
+    expect(() => parseTemplates("tickets:\n  broken:\n    priority: High\n", "t.yaml")).toThrow(
+      "Invalid templates file t.yaml: tickets.broken.subject is required"
+    );
+    expect(() =>
+      parseTemplates("replies:\n  x:\n    message: Hi\n    status: Waiting\n", "t.yaml")
+    ).toThrow(
+      "Invalid templates file t.yaml: replies.x.status must be one of: Open, In Progress, Pending, Resolved, Closed"
+    );
+    expect(() => parseTemplates("tickets: [1, 2]", "t.yaml")).toThrow(
+      "Invalid templates file t.yaml: tickets must map template names to templates"
+    );
+  });
+
+  it("reports syntax errors", () => {
+    expect(() => parseTemplates("tickets: {", "t.yaml")).toThrow("Invalid templates file t.yaml:");
+  });
+});
+
+describe("loadTemplates", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "superops-templates-"));
+    await writeFile(join(dir, "templates.yaml"), YAML_TEMPLATES);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the file named by SUPEROPS_TEMPLATES_FILE", async () => {
+    vi.stubEnv("SUPEROPS_TEMPLATES_FILE", join(dir, "templates.yaml"));
+
+    const templates = await loadTemplates();
+
+    expect(templates.tickets.map((template) => template.name)).toEqual(["onboarding"]);
+  });
+
+  it("explains how to configure templates when unset", async () => {
+    vi.stubEnv("SUPEROPS_TEMPLATES_FILE", "");
+
+    await expect(loadTemplates()).rejects.toThrow("Set SUPEROPS_TEMPLATES_FILE");
+  });
+
+  it("reports a file that cannot be read", async () => {
+    const missing = join(dir, "missing.yaml");
+    vi.stubEnv("SUPEROPS_TEMPLATES_FILE", missing);
+
+    await expect(loadTemplates()).rejects.toThrow(`Cannot read templates file ${missing}`);
+  });
+});
+
+describe("findTemplate", () => {
+  it("lists the available templates when the name is unknown", () => {
+    const templates = [{ name: "a" }, { name: "b" }];
+
+    expect(findTemplate(templates, "b", "Canned reply")).toEqual({ name: "b" });
+    expect(() => findTemplate(templates, "c", "Canned reply")).toThrow(
+      "Canned reply not found: c. Available: a, b"
+    );
+  });
+});
+
+describe("rendering", () => {
+  const { tickets, replies } = parseTemplates(YAML_TEMPLATES, "templates.yaml");
+
+  it("lists placeholders in order of first use", () => {
+    expect(placeholdersOf(tickets[0].subject, tickets[0].description)).toEqual([
+      "name",
+      "startDate",
+    ]);
+  });
+
+  it("fills in a ticket template", () => {
+    const ticket = renderTicketTemplate(tickets[0], { name: "Jane Doe", startDate: "1 March" });
+
+    expect(ticket.subject).toBe("Onboard Jane Doe");
+    expect(ticket.description).toBe("Set up accounts for Jane Doe, starting 1 March.");
+    expect(ticket.priority).toBe("Medium");
+  });
+
+  it("lists every missing variable", () => {
+    expect(() => renderTicketTemplate(tickets[0], { name: "Jane" })).toThrow(
+      "Missing template variable(s): startDate"
+    );
+    expect(() => renderTicketTemplate(tickets[0])).toThrow(
+      "Missing template variable(s): name, startDate"
+    );
+  });
+
+  it("fills in a canned reply, escaping values in HTML", () => {
+    expect(renderReplyTemplate(replies[0], { name: "Jane" }).message).toBe(
+      "Hi Jane, could you send us a screenshot?"
+    );
+
+    const html = { name: "x", message: "<p>Hi {{name}}</p>", messageFormat: "html" as const };
+    expect(renderReplyTemplate(html, { name: "<Jane>" }).message).toBe("<p>Hi &lt;Jane&gt;</p>");
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Ticket Templates
+ *
+ * Loads ticket templates and canned replies from the JSON or YAML file named
+ * by SUPEROPS_TEMPLATES_FILE, and fills in their `{{placeholders}}`. The file
+ * is read on every call, so edits apply without a restart:
+ *
+ *   tickets:
+ *     onboarding:
+ *       summary: New starter setup
+ *       subject: "Onboard {{name}}"
+ *       description: "Set up accounts for {{name}}, starting {{startDate}}."
+ *       priority: Medium
+ *       category: Onboarding
+ *       techGroup: Service Desk
+ *   replies:
+ *     awaiting-info:
+ *       message: "Hi {{name}}, could you send us a screenshot of the error?"
+ *       status: Pending
+ */
+
+import { readFile } from "node:fs/promises";
+import { parse } from "yaml";
+import { SuperOpsError } from "../errors.js";
+import { escapeHtml, type MessageFormat } from "../markdown.js";
+
+const PRIORITIES = ["Low", "Medium", "High", "Critical"];
+const STATUSES = ["Open", "In Progress", "Pending", "Resolved", "Closed"];
+const MESSAGE_FORMATS = ["text", "markdown", "html"];
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export interface TicketTemplate {
+  name: string;
+  // What the template is for
+  summary?: string;
+  subject: string;
+  description?: string;
+  priority?: string;
+  category?: string;
+  techGroup?: string;
+}
+
+export interface ReplyTemplate {
+  name: string;
+  summary?: string;
+  message: string;
+  messageFormat?: MessageFormat;
+  // Status to set along with the reply
+  status?: string;
+}
+
+export interface TemplateConfig {
+  tickets: TicketTemplate[];
+  replies: ReplyTemplate[];
+}
+
+type Variables = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read one template's fields, checking their types and allowed values.
+ */
+function readFields(
+  where: string,
+  entry: unknown,
+  fields: Record<string, { required?: boolean; values?: string[] }>
+): Record<string, string | undefined> {
+  if (!isPlainObject(entry)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const result: Record<string, string | undefined> = {};
+  for (const [field, rule] of Object.entries(fields)) {
+    const value = entry[field];
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        throw new Error(`${where}.${field} is required`);
+      }
+      continue;
+    }
+    if (typeof value !== "string") {
+      throw new Error(`${where}.${field} must be a string`);
+    }
+    if (rule.values && !rule.values.includes(value)) {
+      throw new Error(`${where}.${field} must be one of: ${rule.values.join(", ")}`);
+    }
+    result[field] = value;
+  }
+  return result;
+}
+
+function entriesOf(config: Record<string, unknown>, section: string): [string, unknown][] {
+  const value = config[section];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!isPlainObject(value)) {
+    throw new Error(`${section} must map template names to templates`);
+  }
+  return Object.entries(value);
+}
+
+/**
+ * Parse and check a templates file. JSON is parsed as YAML, of which it is
+ * a subset.
+ */
+export function parseTemplates(source: string, file: string): TemplateConfig {
+  try {
+    const config: unknown = parse(source) ?? {};
+    if (!isPlainObject(config)) {
+      throw new Error("expected an object with tickets and replies");
+    }
+
+    const tickets = entriesOf(config, "tickets").map(([name, entry]) => ({
+      name,
+      ...readFields(`tickets.${name}`, entry, {
+        summary: {},
+        subject: { required: true },
+        description: {},
+        priority: { values: PRIORITIES },
+        category: {},
+        techGroup: {},
+      }),
+    }));
+    const replies = entriesOf(config, "replies").map(([name, entry]) => ({
+      name,
+      ...readFields(`replies.${name}`, entry, {
+        summary: {},
+        message: { required: true },
+        messageFormat: { values: MESSAGE_FORMATS },
+        status: { values: STATUSES },
+      }),
+    }));
+
+    return {
+      tickets: tickets as TicketTemplate[],
+      replies: replies as ReplyTemplate[],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid templates file ${file}: ${message}`);
+  }
+}
+
+/**
+ * Load the templates file named by SUPEROPS_TEMPLATES_FILE.
+ */
+export async function loadTemplates(): Promise<TemplateConfig> {
+  const file = process.env.SUPEROPS_TEMPLATES_FILE;
+  if (!file) {
+    throw new Error(
+      "No templates configured. Set SUPEROPS_TEMPLATES_FILE to the path of a JSON or YAML templates file."
+    );
+  }
+
+  let source: string;
+  try {
+    source = await readFile(file, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read templates file ${file}: ${message}`);
+  }
+  return parseTemplates(source, file);
+}
+
+/**
+ * Find a template by name, or fail naming the templates there are.
+ */
+export function findTemplate<T extends { name: string }>(
+  templates: T[],
+  name: string,
+  label: string
+): T {
+  const template = templates.find((candidate) => candidate.name === name);
+  if (!template) {
+    const available = templates.map((candidate) => candidate.name).join(", ") || "none";
+    throw new SuperOpsError(`${label} not found: ${name}. Available: ${available}`, {
+      kind: "not_found",
+    });
+  }
+  return template;
+}
+
+/**
+ * Names of the placeholders in `texts`, in order of first use.
+ */
+export function placeholdersOf(...texts: (string | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text?.matchAll(PLACEHOLDER) ?? []) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+function assertVariables(names: string[], variables: Variables): void {
+  const missing = names.filter((name) => variables[name] === undefined || variables[name] === null);
+  if (missing.length > 0) {
+    throw new SuperOpsError(`Missing template variable(s): ${missing.join(", ")}`, {
+      kind: "validation",
+      field: "variables",
+    });
+  }
+}
+
+/**
+ * Replace each `{{name}}` in `text` with its variable, passed through `escape`.
+ */
+export function fillPlaceholders(
+  text: string,
+  variables: Variables,
+  escape: (value: string) => string = (value) => value
+): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) => escape(String(variables[name])));
+}
+
+/**
+ * A ticket template with its placeholders filled in. Fails listing every
+ * variable that was not given.
+ */
+export function renderTicketTemplate(
+  template: TicketTemplate,
+  variables: Variables = {}
+): TicketTemplate {
+  assertVariables(placeholdersOf(template.subject, template.description), variables);
+  return {
+    ...template,
+    subject: fillPlaceholders(template.subject, variables),
+    description:
+      template.description === undefined
+        ? undefined
+        : fillPlaceholders(template.description, variables),
+  };
+}
+
+/**
+ * A canned reply with its placeholders filled in. Values are escaped in an
+ * HTML reply.
+ */
+export function renderReplyTemplate(
+  template: ReplyTemplate,
+  variables: Variables = {}
+): ReplyTemplate {
+  assertVariables(placeholdersOf(template.message), variables);
+  const escape = template.messageFormat === "html" ? escapeHtml : undefined;
+  return { ...template, message: fillPlaceholders(template.message, variables, escape) };
+}
@@ -4,7 +4,10 @@
  * Tests for service ticket management tools.
  */
 
-import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, beforeEach, vi, afterEach, beforeAll, afterAll } from "vitest";
 
 // Mock the client module
 vi.mock("../client.js", () => ({
@@ -15,8 +18,19 @@ vi.mock("../client.js", () => ({
 }));
 
 import { getClient } from "../client.js";
+import { SuperOpsError } from "../errors.js";
+import type { ToolContent, ToolResult } from "../types.js";
 import { getTicketsTools } from "./tickets.js";
 
+// Text of one content block; ticket results can also embed files
+function textOf(result: ToolResult<ToolContent>, index = 0): string {
+  const content = result.content[index];
+  if (content.type !== "text") {
+    throw new Error(`Expected text content, got ${content.type}`);
+  }
+  return content.text;
+}
+
 describe("Tickets Domain", () => {
   let mockClient: { query: ReturnType<typeof vi.fn>; mutate: ReturnType<typeof vi.fn> };
 
@@ -30,19 +44,66 @@ describe("Tickets Domain", () => {
 
   afterEach(() => {
     vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  let templatesDir: string;
+  let templatesFile: string;
+
+  beforeAll(async () => {
+    templatesDir = await mkdtemp(join(tmpdir(), "superops-tickets-"));
+    templatesFile = join(templatesDir, "templates.yaml");
+    await writeFile(
+      templatesFile,
+      [
+        "tickets:",
+        "  onboarding:",
+        "    subject: 'Onboard {{name}}'",
+        "    description: 'Set up accounts for {{name}}.'",
+        "    priority: Medium",
+        "    category: Onboarding",
+        "    techGroup: Service Desk",
+        "replies:",
+        "  awaiting-info:",
+        "    summary: Ask for a screenshot",
+        "    message: 'Hi **{{name}}**, could you send a screenshot?'",
+        "    messageFormat: markdown",
+        "    status: Pending",
+      ].join("\n")
+    );
+  });
+
+  afterAll(async () => {
+    await rm(templatesDir, { recursive: true, force: true });
   });
 
   describe("getTicketsTools", () => {
     it("returns tools array with expected tools", () => {
       const domain = getTicketsTools();
-      expect(domain.tools).toHaveLength(6);
+      expect(domain.tools).toHaveLength(22);
       expect(domain.tools.map((t) => t.name)).toEqual([
         "superops_tickets_list",
         "superops_tickets_get",
+        "superops_tickets_search",
         "superops_tickets_create",
+        "superops_tickets_list_templates",
+        "superops_tickets_create_from_template",
         "superops_tickets_update",
+        "superops_tickets_merge",
+        "superops_tickets_split",
+        "superops_tickets_link",
         "superops_tickets_add_note",
+        "superops_tickets_reply",
         "superops_tickets_log_time",
+        "superops_tickets_list_time",
+        "superops_tickets_update_time",
+        "superops_tickets_delete_time",
+        "superops_tickets_get_conversation",
+        "superops_tickets_list_attachments",
+        "superops_tickets_get_attachment",
+        "superops_tickets_upload_attachment",
+        "superops_tickets_sla_report",
+        "superops_tickets_bulk_update",
       ]);
     });
 
@@ -52,6 +113,16 @@ describe("Tickets Domain", () => {
     });
   });
 
+  describe("output schemas", () => {
+    it("declares an object output schema for every tool", () => {
+      const domain = getTicketsTools();
+
+      for (const tool of domain.tools) {
+        expect(tool.outputSchema?.type).toBe("object");
+      }
+    });
+  });
+
   describe("superops_tickets_list tool", () => {
     it("has correct definition", () => {
       const domain = getTicketsTools();
@@ -64,6 +135,10 @@ describe("Tickets Domain", () => {
       expect(tool?.inputSchema.properties).toHaveProperty("clientId");
       expect(tool?.inputSchema.properties).toHaveProperty("assigneeId");
       expect(tool?.inputSchema.properties).toHaveProperty("unassigned");
+      expect(tool?.inputSchema.properties).toHaveProperty("createdAfter");
+      expect(tool?.inputSchema.properties).toHaveProperty("updatedBefore");
+      expect(tool?.inputSchema.properties).toHaveProperty("slaStatus");
+      expect(tool?.inputSchema.properties).toHaveProperty("orderBy");
     });
 
     it("calls query with default parameters", async () => {
@@ -87,7 +162,69 @@ describe("Tickets Domain", () => {
           }),
         })
       );
-      expect(result.content[0].text).toContain("Test Ticket");
+      expect(textOf(result)).toContain("Test Ticket");
+    });
+
+    it("fetches every page when all is set", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          getTicketList: {
+            tickets: [{ ticketId: "1", subject: "First" }],
+            listInfo: { totalCount: 2, hasNextPage: true, endCursor: "c1" },
+          },
+        })
+        .mockResolvedValueOnce({
+          getTicketList: {
+            tickets: [{ ticketId: "2", subject: "Second" }],
+            listInfo: { totalCount: 2, hasNextPage: false, endCursor: "c2" },
+          },
+        });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list", {
+        all: true,
+        status: ["Open"],
+      });
+
+      expect(mockClient.query).toHaveBeenCalledTimes(2);
+      expect(mockClient.query).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          input: expect.objectContaining({
+            after: "c1",
+            filter: { status: ["Open"] },
+          }),
+        })
+      );
+      const parsed = JSON.parse(textOf(result));
+      expect(parsed.tickets.map((t: { ticketId: string }) => t.ticketId)).toEqual(["1", "2"]);
+      expect(parsed.pagination).toEqual({ pagesFetched: 2, itemsFetched: 2, truncated: false });
+    });
+
+    it("narrows the selection to the requested fields", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [{ ticketId: "1", subject: "Test Ticket" }],
+          listInfo: { totalCount: 1, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_list", { fields: ["subject", "status"] });
+
+      const [query] = mockClient.query.mock.calls[0];
+      expect(query).toContain("ticketId\nsubject\nstatus\n");
+      expect(query).not.toContain("requester");
+    });
+
+    it("rejects unknown fields and lists the allowed ones", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list", { fields: ["secret"] });
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Unknown field(s): secret");
+      expect(textOf(result)).toContain("Allowed values are: ticketId, ticketNumber,");
     });
 
     it("applies status filter as array", async () => {
@@ -166,6 +303,53 @@ describe("Tickets Domain", () => {
       );
     });
 
+    it("filters by date range and SLA status and sorts as requested", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [],
+          listInfo: { totalCount: 0, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_list", {
+        createdAfter: "2024-05-01",
+        updatedBefore: "2024-05-02T08:00:00Z",
+        slaStatus: "breached",
+        orderBy: "priority",
+        orderDirection: "asc",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.any(String), {
+        input: {
+          first: 50,
+          filter: {
+            or: expect.arrayContaining([{ firstResponseViolated: true }, { resolutionViolated: true }]),
+            createdTime: { after: "2024-05-01T00:00:00.000Z" },
+            lastUpdatedTime: { before: "2024-05-02T08:00:00.000Z" },
+          },
+          orderBy: { field: "priority", direction: "ASC" },
+        },
+      });
+    });
+
+    it("returns SLA due-by and first-response fields", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [],
+          listInfo: { totalCount: 0, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_list", {});
+
+      const [query] = mockClient.query.mock.calls[0];
+      expect(query).toContain("firstResponseDueTime");
+      expect(query).toContain("firstResponseTime");
+      expect(query).toContain("resolutionDueTime");
+    });
+
     it("filters for unassigned tickets", async () => {
       const mockResponse = {
         getTicketList: {
@@ -222,7 +406,135 @@ describe("Tickets Domain", () => {
           input: { ticketId: "ticket-123" },
         })
       );
-      expect(result.content[0].text).toContain("Test Issue");
+      expect(textOf(result)).toContain("Test Issue");
+      expect(result.structuredContent).toEqual(mockResponse.getTicket);
+    });
+
+    it("includes linked tickets", async () => {
+      const linkedTickets = [
+        { ticketId: "t2", ticketNumber: "1002", subject: "Duplicate", linkType: "CHILD" },
+      ];
+      mockClient.query.mockResolvedValue({
+        getTicket: { ticketId: "t1", subject: "Outage", linkedTickets },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get", { ticketId: "t1" });
+
+      const [query] = mockClient.query.mock.calls[0];
+      expect(query).toContain("linkedTickets {");
+      expect(result.structuredContent).toMatchObject({ linkedTickets });
+    });
+
+    it("reports a missing ticket as not found", async () => {
+      mockClient.query.mockResolvedValue({ getTicket: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get", { ticketId: "missing" });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Error (not_found): Ticket not found: missing");
+    });
+  });
+
+  describe("superops_tickets_search tool", () => {
+    const emptyList = {
+      getTicketList: {
+        tickets: [],
+        listInfo: { totalCount: 0, hasNextPage: false },
+      },
+    };
+
+    it("has correct definition", () => {
+      const domain = getTicketsTools();
+      const tool = domain.tools.find((t) => t.name === "superops_tickets_search");
+
+      expect(tool).toBeDefined();
+      for (const property of [
+        "query",
+        "requesterEmail",
+        "categoryName",
+        "techGroupName",
+        "createdAfter",
+        "updatedBefore",
+        "orderBy",
+        "orderDirection",
+      ]) {
+        expect(tool?.inputSchema.properties).toHaveProperty(property);
+      }
+    });
+
+    it("searches by keyword, client and date range", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [{ ticketId: "1", subject: "Outlook crashes on start" }],
+          listInfo: { totalCount: 1, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_search", {
+        query: "Outlook",
+        clientName: "Acme",
+        createdAfter: "2024-03-04",
+        createdBefore: "2024-03-11",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining("getTicketList"), {
+        input: {
+          first: 50,
+          filter: {
+            or: [{ subject: { contains: "Outlook" } }, { description: { contains: "Outlook" } }],
+            client: { name: { contains: "Acme" } },
+            createdTime: {
+              after: "2024-03-04T00:00:00.000Z",
+              before: "2024-03-11T00:00:00.000Z",
+            },
+          },
+          orderBy: { field: "createdTime", direction: "DESC" },
+        },
+      });
+      expect(textOf(result)).toContain("Outlook crashes on start");
+    });
+
+    it("sorts by the requested field and direction", async () => {
+      mockClient.query.mockResolvedValue(emptyList);
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_search", {
+        requesterEmail: "jane@acme.com",
+        orderBy: "lastUpdatedTime",
+        orderDirection: "asc",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({
+          filter: { requester: { email: "jane@acme.com" } },
+          orderBy: { field: "lastUpdatedTime", direction: "ASC" },
+        }),
+      });
+    });
+
+    it("requires a query or a filter", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_search", {});
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Provide a search query or at least one filter");
+    });
+
+    it("rejects an invalid date before calling the API", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_search", {
+        query: "printer",
+        updatedAfter: "yesterday",
+      });
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain(
+        'Error (validation): Invalid date for updatedAfter: "yesterday"'
+      );
     });
   });
 
@@ -265,7 +577,7 @@ describe("Tickets Domain", () => {
           }),
         })
       );
-      expect(result.content[0].text).toContain("new-ticket");
+      expect(textOf(result)).toContain("new-ticket");
     });
 
     it("includes optional fields when provided", async () => {
@@ -323,6 +635,103 @@ describe("Tickets Domain", () => {
     });
   });
 
+  describe("superops_tickets_list_templates tool", () => {
+    it("lists templates with their placeholders", async () => {
+      vi.stubEnv("SUPEROPS_TEMPLATES_FILE", templatesFile);
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_templates", {});
+
+      expect(result.structuredContent).toEqual({
+        tickets: [
+          {
+            name: "onboarding",
+            subject: "Onboard {{name}}",
+            priority: "Medium",
+            category: "Onboarding",
+            techGroup: "Service Desk",
+            placeholders: ["name"],
+          },
+        ],
+        replies: [
+          {
+            name: "awaiting-info",
+            summary: "Ask for a screenshot",
+            messageFormat: "markdown",
+            status: "Pending",
+            placeholders: ["name"],
+          },
+        ],
+      });
+    });
+
+    it("explains how to configure templates", async () => {
+      vi.stubEnv("SUPEROPS_TEMPLATES_FILE", "");
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_templates", {});
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Set SUPEROPS_TEMPLATES_FILE");
+    });
+  });
+
+  describe("superops_tickets_create_from_template tool", () => {
+    beforeEach(() => {
+      vi.stubEnv("SUPEROPS_TEMPLATES_FILE", templatesFile);
+    });
+
+    it("creates a ticket from the filled-in template", async () => {
+      mockClient.mutate.mockResolvedValue({ createTicket: { ticketId: "new-ticket" } });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_create_from_template", {
+        template: "onboarding",
+        clientId: "client-123",
+        variables: { name: "Jane Doe" },
+        priority: "High",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.stringContaining("createTicket"), {
+        input: {
+          subject: "Onboard Jane Doe",
+          description: "Set up accounts for Jane Doe.",
+          client: { accountId: "client-123" },
+          priority: "HIGH",
+          techGroup: { name: "Service Desk" },
+          category: { name: "Onboarding" },
+        },
+      });
+      expect(result.structuredContent).toEqual({ ticketId: "new-ticket" });
+    });
+
+    it("lists missing variables without creating a ticket", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_create_from_template", {
+        template: "onboarding",
+        clientId: "client-123",
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain(
+        "Error (validation): Missing template variable(s): name"
+      );
+    });
+
+    it("reports an unknown template as not found", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_create_from_template", {
+        template: "offboarding",
+        clientId: "client-123",
+      });
+
+      expect(textOf(result)).toContain(
+        "Error (not_found): Ticket template not found: offboarding. Available: onboarding"
+      );
+    });
+  });
+
   describe("superops_tickets_update tool", () => {
     it("has correct definition", () => {
       const domain = getTicketsTools();
@@ -349,7 +758,8 @@ describe("Tickets Domain", () => {
         expect.stringContaining("updateTicket"),
         expect.objectContaining({
           input: { ticketId: "ticket-123" },
-        })
+        }),
+        { idempotent: true }
       );
     });
 
@@ -378,8 +788,194 @@ describe("Tickets Domain", () => {
             assignee: { id: "tech-456" },
             resolution: "Fixed the issue",
           }),
-        })
+        }),
+        { idempotent: true }
+      );
+    });
+  });
+
+  describe("superops_tickets_merge tool", () => {
+    it("merges the children into the parent, moving notes and time entries", async () => {
+      const parent = {
+        ticketId: "t1",
+        subject: "Outage",
+        linkedTickets: [{ ticketId: "t2", linkType: "CHILD" }],
+      };
+      mockClient.mutate.mockResolvedValue({ mergeTickets: parent });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_merge", {
+        parentTicketId: "t1",
+        childTicketIds: ["t2", "t3", "t2"],
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.stringContaining("mergeTickets"), {
+        input: {
+          parentTicketId: "t1",
+          childTicketIds: ["t2", "t3"],
+          moveNotes: true,
+          moveTimeEntries: true,
+        },
+      });
+      expect(result.structuredContent).toEqual(parent);
+    });
+
+    it("can leave notes and time entries on the children", async () => {
+      mockClient.mutate.mockResolvedValue({ mergeTickets: { ticketId: "t1" } });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_merge", {
+        parentTicketId: "t1",
+        childTicketIds: ["t2"],
+        moveNotes: false,
+        moveTimeEntries: false,
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({ moveNotes: false, moveTimeEntries: false }),
+      });
+    });
+
+    it("refuses to merge a ticket into itself", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_merge", {
+        parentTicketId: "t1",
+        childTicketIds: ["t1"],
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain(
+        "Error (validation): A ticket cannot be merged into itself."
+      );
+    });
+  });
+
+  describe("superops_tickets_split tool", () => {
+    it("moves the selected notes and time entries to a new child ticket", async () => {
+      const child = {
+        ticketId: "t9",
+        subject: "Replace toner",
+        linkedTickets: [{ ticketId: "t1", linkType: "PARENT" }],
+      };
+      mockClient.mutate.mockResolvedValue({ splitTicket: child });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_split", {
+        ticketId: "t1",
+        subject: "Replace toner",
+        noteIds: ["n1", "n2", "n1"],
+        timeEntryIds: ["te1"],
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.stringContaining("splitTicket"), {
+        input: {
+          ticketId: "t1",
+          subject: "Replace toner",
+          noteIds: ["n1", "n2"],
+          timeEntryIds: ["te1"],
+        },
+      });
+      expect(result.structuredContent).toEqual(child);
+    });
+
+    it("passes a description for the new ticket", async () => {
+      mockClient.mutate.mockResolvedValue({ splitTicket: { ticketId: "t9" } });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_split", {
+        ticketId: "t1",
+        subject: "Replace toner",
+        description: "Split from the printer outage",
+        timeEntryIds: ["te1"],
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({
+          description: "Split from the printer outage",
+          noteIds: [],
+          timeEntryIds: ["te1"],
+        }),
+      });
+    });
+
+    it("refuses a split with nothing selected", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_split", {
+        ticketId: "t1",
+        subject: "Replace toner",
+        noteIds: [],
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain(
+        "Error (validation): Select at least one note or time entry to split out."
+      );
+    });
+  });
+
+  describe("superops_tickets_link tool", () => {
+    it("links related tickets by default", async () => {
+      mockClient.mutate.mockResolvedValue({ linkTickets: { ticketId: "t1" } });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_link", {
+        ticketId: "t1",
+        linkedTicketIds: ["t2"],
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("linkTickets"),
+        { input: { ticketId: "t1", linkedTicketIds: ["t2"], linkType: "RELATED" } },
+        { idempotent: true }
+      );
+    });
+
+    it("links child tickets", async () => {
+      mockClient.mutate.mockResolvedValue({ linkTickets: { ticketId: "t1" } });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_link", {
+        ticketId: "t1",
+        linkedTicketIds: ["t2", "t3"],
+        linkType: "child",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.any(String),
+        { input: expect.objectContaining({ linkType: "CHILD" }) },
+        { idempotent: true }
+      );
+    });
+
+    it("removes links", async () => {
+      mockClient.mutate.mockResolvedValue({
+        unlinkTickets: { ticketId: "t1", linkedTickets: [] },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_link", {
+        ticketId: "t1",
+        linkedTicketIds: ["t2"],
+        unlink: true,
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("unlinkTickets"),
+        { input: { ticketId: "t1", linkedTicketIds: ["t2"] } },
+        { idempotent: true }
       );
+      expect(result.structuredContent).toEqual({ ticketId: "t1", linkedTickets: [] });
+    });
+
+    it("refuses to link a ticket to itself", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_link", {
+        ticketId: "t1",
+        linkedTicketIds: ["t2", "t1"],
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
     });
   });
 
@@ -452,33 +1048,168 @@ describe("Tickets Domain", () => {
     });
   });
 
-  describe("superops_tickets_log_time tool", () => {
+  describe("superops_tickets_reply tool", () => {
+    const reply = {
+      entryId: "e9",
+      type: "REPLY",
+      createdTime: "2024-01-01T10:00:00Z",
+      content: "<p>Fixed.</p>",
+      isPublic: true,
+      cc: ["boss@example.com"],
+      fromStatus: "Open",
+      toStatus: "Pending",
+    };
+
     it("has correct definition", () => {
       const domain = getTicketsTools();
-      const tool = domain.tools.find((t) => t.name === "superops_tickets_log_time");
+      const tool = domain.tools.find((t) => t.name === "superops_tickets_reply");
 
       expect(tool).toBeDefined();
-      expect(tool?.inputSchema.properties).toHaveProperty("ticketId");
-      expect(tool?.inputSchema.properties).toHaveProperty("duration");
-      expect(tool?.inputSchema.properties).toHaveProperty("description");
-      expect(tool?.inputSchema.properties).toHaveProperty("workType");
-      expect(tool?.inputSchema.properties).toHaveProperty("billable");
-      expect(tool?.inputSchema.required).toContain("ticketId");
-      expect(tool?.inputSchema.required).toContain("duration");
+      expect(tool?.inputSchema.properties).toHaveProperty("cc");
+      expect(tool?.inputSchema.properties).toHaveProperty("status");
+      expect(tool?.inputSchema.properties).toHaveProperty("template");
+      expect(tool?.inputSchema.required).toEqual(["ticketId"]);
     });
 
-    it("logs time with required fields and default billable", async () => {
-      const mockResponse = {
-        addTicketTimeEntry: {
-          timeEntryId: "time-123",
-          ticketId: "ticket-123",
-          duration: 30,
-        },
-      };
-      mockClient.mutate.mockResolvedValue(mockResponse);
+    it("sends plain text as HTML paragraphs", async () => {
+      mockClient.mutate.mockResolvedValue({ addTicketReply: reply });
 
       const domain = getTicketsTools();
-      await domain.handleCall("superops_tickets_log_time", {
+      const result = await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "Hi Jane,\n\nAll fixed.",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("addTicketReply"),
+        { input: { ticketId: "ticket-123", content: "<p>Hi Jane,</p>\n<p>All fixed.</p>" } }
+      );
+      expect(result.structuredContent).toEqual(reply);
+    });
+
+    it("converts Markdown, copies addresses and changes status in one mutation", async () => {
+      mockClient.mutate.mockResolvedValue({ addTicketReply: reply });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "**Fixed.**",
+        messageFormat: "markdown",
+        cc: [" boss@example.com", "boss@example.com"],
+        status: "Pending",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledTimes(1);
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: {
+          ticketId: "ticket-123",
+          content: "<p><strong>Fixed.</strong></p>",
+          cc: ["boss@example.com"],
+          status: "Pending",
+        },
+      });
+    });
+
+    it("rejects an invalid CC address", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "Fixed.",
+        cc: ["boss@example"],
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Not a valid email address: "boss@example"');
+    });
+
+    it("sends a canned reply with its status", async () => {
+      vi.stubEnv("SUPEROPS_TEMPLATES_FILE", templatesFile);
+      mockClient.mutate.mockResolvedValue({ addTicketReply: reply });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        template: "awaiting-info",
+        variables: { name: "Jane" },
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: {
+          ticketId: "ticket-123",
+          content: "<p>Hi <strong>Jane</strong>, could you send a screenshot?</p>",
+          status: "Pending",
+        },
+      });
+    });
+
+    it("treats a null template as not given", async () => {
+      mockClient.mutate.mockResolvedValue({ addTicketReply: reply });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "Fixed.",
+        template: null,
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: { ticketId: "ticket-123", content: "<p>Fixed.</p>" },
+      });
+    });
+
+    it("requires exactly one of message and template", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "Hi",
+        template: "awaiting-info",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Provide either message or template");
+    });
+
+    it("rejects an empty message", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_reply", {
+        ticketId: "ticket-123",
+        message: "  ",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("The reply message is empty.");
+    });
+  });
+
+  describe("superops_tickets_log_time tool", () => {
+    it("has correct definition", () => {
+      const domain = getTicketsTools();
+      const tool = domain.tools.find((t) => t.name === "superops_tickets_log_time");
+
+      expect(tool).toBeDefined();
+      expect(tool?.inputSchema.properties).toHaveProperty("ticketId");
+      expect(tool?.inputSchema.properties).toHaveProperty("duration");
+      expect(tool?.inputSchema.properties).toHaveProperty("description");
+      expect(tool?.inputSchema.properties).toHaveProperty("workType");
+      expect(tool?.inputSchema.properties).toHaveProperty("billable");
+      expect(tool?.inputSchema.required).toContain("ticketId");
+      expect(tool?.inputSchema.required).toContain("duration");
+    });
+
+    it("logs time with required fields and default billable", async () => {
+      const mockResponse = {
+        addTicketTimeEntry: {
+          timeEntryId: "time-123",
+          ticketId: "ticket-123",
+          duration: 30,
+        },
+      };
+      mockClient.mutate.mockResolvedValue(mockResponse);
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_log_time", {
         ticketId: "ticket-123",
         duration: 30,
       });
@@ -526,13 +1257,752 @@ describe("Tickets Domain", () => {
     });
   });
 
+  describe("superops_tickets_list_time tool", () => {
+    const timeEntries = [
+      {
+        timeEntryId: "te1",
+        ticketId: "ticket-123",
+        duration: 30,
+        billable: true,
+        technician: { id: "t1", name: "Tech One" },
+        createdTime: "2024-01-02T09:00:00Z",
+      },
+    ];
+
+    it("lists time entries newest first", async () => {
+      mockClient.query.mockResolvedValue({
+        getTimeEntryList: { timeEntries, listInfo: { totalCount: 1, hasNextPage: false } },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_time", {});
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("getTimeEntryList"),
+        { input: { first: 50, orderBy: { field: "createdTime", direction: "DESC" } } }
+      );
+      expect(result.structuredContent).toEqual({
+        timeEntries,
+        listInfo: { totalCount: 1, hasNextPage: false },
+      });
+    });
+
+    it("filters by ticket, technician, date range and billable", async () => {
+      mockClient.query.mockResolvedValue({
+        getTimeEntryList: { timeEntries: [], listInfo: { totalCount: 0, hasNextPage: false } },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_list_time", {
+        ticketId: "ticket-123",
+        technicianId: "t1",
+        loggedAfter: "2024-01-01",
+        loggedBefore: "2024-02-01T00:00:00Z",
+        billable: false,
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({
+          filter: {
+            ticketId: "ticket-123",
+            technician: { id: "t1" },
+            billable: false,
+            createdTime: {
+              after: "2024-01-01T00:00:00.000Z",
+              before: "2024-02-01T00:00:00.000Z",
+            },
+          },
+        }),
+      });
+    });
+
+    it("does not filter on a null billable", async () => {
+      mockClient.query.mockResolvedValue({
+        getTimeEntryList: { timeEntries: [], listInfo: { totalCount: 0, hasNextPage: false } },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_list_time", {
+        ticketId: "ticket-123",
+        billable: null,
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({ filter: { ticketId: "ticket-123" } }),
+      });
+    });
+
+    it("rejects an invalid date", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_time", {
+        loggedAfter: "last week",
+      });
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain('Invalid date for loggedAfter: "last week"');
+    });
+  });
+
+  describe("superops_tickets_update_time tool", () => {
+    it("updates only the given fields and retries safely", async () => {
+      const updated = { timeEntryId: "te1", ticketId: "ticket-123", duration: 45, billable: false };
+      mockClient.mutate.mockResolvedValue({ updateTicketTimeEntry: updated });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_update_time", {
+        timeEntryId: "te1",
+        duration: 45,
+        billable: false,
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("updateTicketTimeEntry"),
+        { input: { timeEntryId: "te1", duration: 45, billable: false } },
+        { idempotent: true }
+      );
+      expect(result.structuredContent).toEqual(updated);
+    });
+
+    it("requires at least one change, ignoring null arguments", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_update_time", {
+        timeEntryId: "te1",
+        duration: null,
+        description: null,
+        workType: null,
+        billable: null,
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain("Provide at least one change");
+    });
+
+    it("reports a missing time entry as not found", async () => {
+      mockClient.mutate.mockResolvedValue({ updateTicketTimeEntry: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_update_time", {
+        timeEntryId: "missing",
+        duration: 10,
+      });
+
+      expect(textOf(result)).toContain("Error (not_found): Time entry not found: missing");
+    });
+  });
+
+  describe("superops_tickets_delete_time tool", () => {
+    it("deletes a time entry", async () => {
+      mockClient.mutate.mockResolvedValue({ deleteTicketTimeEntry: true });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_delete_time", {
+        timeEntryId: "te1",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("deleteTicketTimeEntry"),
+        { input: { timeEntryId: "te1" } }
+      );
+      expect(result.structuredContent).toEqual({ timeEntryId: "te1", deleted: true });
+    });
+
+    it("reports a missing time entry as not found", async () => {
+      mockClient.mutate.mockResolvedValue({ deleteTicketTimeEntry: false });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_delete_time", {
+        timeEntryId: "missing",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Error (not_found): Time entry not found: missing");
+    });
+  });
+
+  describe("superops_tickets_get_conversation tool", () => {
+    const entries = [
+      {
+        entryId: "e1",
+        type: "REPLY",
+        createdTime: "2024-01-01T09:00:00Z",
+        author: { id: "c1", name: "Jane Requester" },
+        content: "My printer is offline",
+        isPublic: true,
+      },
+      {
+        entryId: "e2",
+        type: "STATUS_CHANGE",
+        createdTime: "2024-01-01T09:05:00Z",
+        author: { id: "t1", name: "Tech One" },
+        fromStatus: "Open",
+        toStatus: "In Progress",
+      },
+      {
+        entryId: "e3",
+        type: "TIME_ENTRY",
+        createdTime: "2024-01-01T09:30:00Z",
+        author: { id: "t1", name: "Tech One" },
+        content: "Restarted print spooler",
+        duration: 25,
+        billable: true,
+      },
+    ];
+
+    it("has correct definition", () => {
+      const domain = getTicketsTools();
+      const tool = domain.tools.find((t) => t.name === "superops_tickets_get_conversation");
+
+      expect(tool).toBeDefined();
+      expect(tool?.inputSchema.properties).toHaveProperty("types");
+      expect(tool?.inputSchema.properties).toHaveProperty("cursor");
+      expect(tool?.inputSchema.required).toEqual(["ticketId"]);
+    });
+
+    it("returns the thread oldest first", async () => {
+      const response = {
+        getTicketConversationList: {
+          entries,
+          listInfo: { totalCount: 3, hasNextPage: false },
+        },
+      };
+      mockClient.query.mockResolvedValue(response);
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_conversation", {
+        ticketId: "ticket-123",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("getTicketConversationList"),
+        {
+          input: {
+            ticketId: "ticket-123",
+            first: 50,
+            orderBy: { field: "createdTime", direction: "ASC" },
+          },
+        }
+      );
+      expect(result.structuredContent).toEqual({
+        entries,
+        listInfo: response.getTicketConversationList.listInfo,
+      });
+    });
+
+    it("filters by entry type and pages with a cursor", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketConversationList: {
+          entries: [entries[0]],
+          listInfo: { totalCount: 1, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_get_conversation", {
+        ticketId: "ticket-123",
+        types: ["REPLY", "NOTE"],
+        max: 10,
+        cursor: "abc",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.any(String), {
+        input: expect.objectContaining({
+          first: 10,
+          after: "abc",
+          filter: { type: ["REPLY", "NOTE"] },
+        }),
+      });
+    });
+
+    it("renders the thread as a table", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketConversationList: {
+          entries,
+          listInfo: { totalCount: 3, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_conversation", {
+        ticketId: "ticket-123",
+        format: "table",
+      });
+
+      const table = textOf(result).split("\n");
+      expect(table[0]).toMatch(/^entryId\s+type\s+createdTime\s+author\.id\s+author\.name/);
+      expect(table[3]).toContain("STATUS_CHANGE");
+      expect(textOf(result, 1)).toBe("Showing 3 of 3 entries.");
+    });
+
+    it("reports a missing ticket as not found", async () => {
+      mockClient.query.mockResolvedValue({ getTicketConversationList: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_conversation", {
+        ticketId: "missing",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Error (not_found): Ticket not found: missing");
+    });
+  });
+
+  describe("superops_tickets_list_attachments tool", () => {
+    it("lists a ticket's attachments", async () => {
+      const attachments = [
+        { attachmentId: "a1", fileName: "error.log", fileSize: 120, contentType: "text/plain" },
+        { attachmentId: "a2", fileName: "screen.png", fileSize: 5000, contentType: "image/png" },
+      ];
+      mockClient.query.mockResolvedValue({ getTicketAttachmentList: attachments });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_attachments", {
+        ticketId: "ticket-123",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("getTicketAttachmentList"),
+        { input: { ticketId: "ticket-123" } }
+      );
+      expect(result.structuredContent).toEqual({ attachments });
+    });
+
+    it("reports a missing ticket as not found", async () => {
+      mockClient.query.mockResolvedValue({ getTicketAttachmentList: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_list_attachments", {
+        ticketId: "missing",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Error (not_found): Ticket not found: missing");
+    });
+  });
+
+  describe("superops_tickets_get_attachment tool", () => {
+    const logFile = {
+      attachmentId: "a1",
+      fileName: "error.log",
+      fileSize: 11,
+      contentType: "text/plain; charset=utf-8",
+    };
+    const image = {
+      attachmentId: "a2",
+      fileName: "screen.png",
+      fileSize: 4,
+      contentType: "image/png",
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("returns a text file inline", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ getTicketAttachment: logFile })
+        .mockResolvedValueOnce({
+          getTicketAttachment: { attachmentId: "a1", content: "ZGlzayBmdWxsIQ==" },
+        });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_attachment", {
+        ticketId: "ticket-123",
+        attachmentId: "a1",
+      });
+
+      expect(mockClient.query).toHaveBeenLastCalledWith(expect.stringContaining("content"), {
+        input: { ticketId: "ticket-123", attachmentId: "a1" },
+      });
+      expect(result.content[1]).toEqual({ type: "text", text: "disk full!" });
+      expect(result.structuredContent).toEqual(logFile);
+    });
+
+    it("returns a binary file as an embedded resource", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ getTicketAttachment: image })
+        .mockResolvedValueOnce({
+          getTicketAttachment: { attachmentId: "a2", content: "iVBORw==" },
+        });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_attachment", {
+        ticketId: "ticket-123",
+        attachmentId: "a2",
+      });
+
+      expect(result.content[1]).toEqual({
+        type: "resource",
+        resource: {
+          uri: "superops://tickets/ticket-123/attachments/a2",
+          mimeType: "image/png",
+          blob: "iVBORw==",
+        },
+      });
+    });
+
+    it("refuses a file over the size limit without downloading it", async () => {
+      vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "10");
+      mockClient.query.mockResolvedValueOnce({ getTicketAttachment: logFile });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_attachment", {
+        ticketId: "ticket-123",
+        attachmentId: "a1",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain(
+        "error.log is 11 bytes, over the 10 byte attachment limit"
+      );
+    });
+
+    it("reports a missing attachment as not found", async () => {
+      mockClient.query.mockResolvedValue({ getTicketAttachment: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_get_attachment", {
+        ticketId: "ticket-123",
+        attachmentId: "missing",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain(
+        "Error (not_found): Attachment not found: missing on ticket ticket-123"
+      );
+    });
+  });
+
+  describe("superops_tickets_upload_attachment tool", () => {
+    const uploaded = { attachmentId: "a3", fileName: "notes.txt", fileSize: 5 };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("uploads base64 content", async () => {
+      mockClient.mutate.mockResolvedValue({ uploadTicketAttachment: uploaded });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_upload_attachment", {
+        ticketId: "ticket-123",
+        fileName: "notes.txt",
+        contentType: "text/plain",
+        content: "data:text/plain;base64,aGVsbG8=",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("uploadTicketAttachment"),
+        {
+          input: {
+            ticketId: "ticket-123",
+            fileName: "notes.txt",
+            contentType: "text/plain",
+            content: "aGVsbG8=",
+          },
+        }
+      );
+      expect(result.structuredContent).toEqual(uploaded);
+    });
+
+    it("uploads an embedded text resource", async () => {
+      mockClient.mutate.mockResolvedValue({ uploadTicketAttachment: uploaded });
+
+      const domain = getTicketsTools();
+      await domain.handleCall("superops_tickets_upload_attachment", {
+        ticketId: "ticket-123",
+        resource: { uri: "file:///tmp/notes.txt", mimeType: "text/plain", text: "hello" },
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledWith(expect.any(String), {
+        input: {
+          ticketId: "ticket-123",
+          fileName: "notes.txt",
+          contentType: "text/plain",
+          content: "aGVsbG8=",
+        },
+      });
+    });
+
+    it("refuses a file over the size limit", async () => {
+      vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "4");
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_upload_attachment", {
+        ticketId: "ticket-123",
+        fileName: "notes.txt",
+        content: "aGVsbG8=",
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("SUPEROPS_MAX_ATTACHMENT_BYTES");
+    });
+
+    it("requires exactly one of content and resource", async () => {
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_upload_attachment", {
+        ticketId: "ticket-123",
+        fileName: "notes.txt",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Provide either content or resource");
+    });
+  });
+
+  describe("superops_tickets_sla_report tool", () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-01-01T12:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("reports breaches across every page of open tickets", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          getTicketList: {
+            tickets: [
+              {
+                ticketId: "1",
+                subject: "Email down",
+                createdTime: "2024-01-01T08:00:00Z",
+                client: { accountId: "a", name: "Acme" },
+                firstResponseDueTime: "2024-01-01T09:00:00Z",
+              },
+            ],
+            listInfo: { totalCount: 2, hasNextPage: true, endCursor: "c1" },
+          },
+        })
+        .mockResolvedValueOnce({
+          getTicketList: {
+            tickets: [
+              {
+                ticketId: "2",
+                subject: "New laptop",
+                createdTime: "2024-01-01T08:00:00Z",
+                resolutionDueTime: "2024-01-04T08:00:00Z",
+              },
+            ],
+            listInfo: { totalCount: 2, hasNextPage: false },
+          },
+        });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_sla_report", {
+        clientId: "a",
+      });
+
+      expect(mockClient.query).toHaveBeenCalledTimes(2);
+      expect(mockClient.query).toHaveBeenNthCalledWith(1, expect.any(String), {
+        input: {
+          first: 500,
+          filter: {
+            client: { accountId: "a" },
+            status: ["Open", "In Progress", "Pending"],
+          },
+          orderBy: { field: "createdTime", direction: "DESC" },
+        },
+      });
+      const [query] = mockClient.query.mock.calls[0];
+      expect(query).toContain("firstResponseDueTime");
+      expect(query).toContain("resolutionViolated");
+
+      expect(textOf(result)).toContain("SLA report for 2 open ticket(s)");
+      expect(textOf(result)).toContain("- Acme: 1 breached, 0 at risk");
+      expect(result.structuredContent).toMatchObject({
+        summary: { total: 2, breached: 1, atRisk: 0, ok: 1 },
+        tickets: [{ ticketId: "1", slaStatus: "breached" }],
+        pagination: { pagesFetched: 2, itemsFetched: 2, truncated: false },
+      });
+    });
+
+    it("renders the rows in a tabular format", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [
+            {
+              ticketId: "1",
+              subject: "Email down",
+              createdTime: "2024-01-01T08:00:00Z",
+              resolutionViolated: true,
+            },
+          ],
+          listInfo: { totalCount: 1, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_sla_report", { format: "csv" });
+
+      const [header, row] = textOf(result, 1).split("\n");
+      expect(header).toBe(
+        "ticketId,subject,slaStatus,firstResponse.status,firstResponse.elapsedMinutes,resolution.status,resolution.elapsedMinutes"
+      );
+      expect(row).toContain("Email down,breached");
+    });
+
+    it("notes when the ticket limit cut the report short", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [{ ticketId: "1", subject: "One" }],
+          listInfo: { totalCount: 5, hasNextPage: true, endCursor: "c1" },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_sla_report", { maxTotal: 1 });
+
+      expect(textOf(result)).toContain("Only the first 1 open tickets were checked.");
+      expect(textOf(result, 1)).toBe("[]");
+    });
+  });
+
+  describe("superops_tickets_bulk_update tool", () => {
+    it("updates each listed ticket and reports per-ticket results", async () => {
+      mockClient.mutate.mockImplementation(async (_mutation, { input }) => {
+        if (input.ticketId === "2") {
+          throw new SuperOpsError("Ticket not found: 2", { kind: "not_found" });
+        }
+        return { updateTicket: { ticketId: input.ticketId, priority: "HIGH" } };
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_bulk_update", {
+        ticketIds: ["1", "2", "3", "1"],
+        priority: "High",
+        assigneeId: "t1",
+      });
+
+      expect(mockClient.mutate).toHaveBeenCalledTimes(3);
+      expect(mockClient.mutate).toHaveBeenCalledWith(
+        expect.stringContaining("updateTicket"),
+        { input: { ticketId: "1", priority: "HIGH", assignee: { id: "t1" } } },
+        { idempotent: true }
+      );
+      expect(result.isError).toBeUndefined();
+      expect(textOf(result)).toContain("Updated 2 of 3 ticket(s)");
+      expect(result.structuredContent).toMatchObject({
+        dryRun: false,
+        changes: { priority: "High", assigneeId: "t1" },
+        total: 3,
+        succeeded: 2,
+        failed: 1,
+        results: [
+          { ticketId: "1", success: true },
+          { ticketId: "2", success: false, error: "not_found: Ticket not found: 2" },
+          { ticketId: "3", success: true },
+        ],
+      });
+    });
+
+    it("previews tickets matched by a filter without updating them", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [
+            { ticketId: "1", ticketNumber: "1001", subject: "VPN down", status: "Open" },
+            { ticketId: "2", ticketNumber: "1002", subject: "VPN slow", status: "Open" },
+          ],
+          listInfo: { totalCount: 2, hasNextPage: false },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_bulk_update", {
+        filter: { clientId: "c1", status: ["Open"] },
+        status: "Resolved",
+        dryRun: true,
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining("getTicketList"), {
+        input: expect.objectContaining({
+          first: 100,
+          filter: { client: { accountId: "c1" }, status: ["Open"] },
+        }),
+      });
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(textOf(result)).toContain(
+        'Dry run: 2 ticket(s) would be updated with status = "Resolved".'
+      );
+      expect(textOf(result)).toContain("- #1001 VPN down (Open, Unassigned)");
+    });
+
+    it("previews listed tickets by fetching each one", async () => {
+      mockClient.query.mockResolvedValueOnce({ getTicket: { ticketId: "1", subject: "VPN" } });
+      mockClient.query.mockResolvedValueOnce({ getTicket: null });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_bulk_update", {
+        ticketIds: ["1", "2"],
+        status: "Resolved",
+        dryRun: true,
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { ticketId: "1", success: true },
+          { ticketId: "2", success: false, error: "not_found: Ticket not found: 2" },
+        ],
+      });
+    });
+
+    it("refuses to run when the filter matches more than maxTickets", async () => {
+      mockClient.query.mockResolvedValue({
+        getTicketList: {
+          tickets: [{ ticketId: "1" }, { ticketId: "2" }],
+          listInfo: { totalCount: 40, hasNextPage: true, endCursor: "c1" },
+        },
+      });
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_bulk_update", {
+        filter: { status: ["Open"] },
+        priority: "Low",
+        maxTickets: 2,
+      });
+
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("The filter matches more than 2 tickets.");
+    });
+
+    it("requires a change and exactly one way of choosing tickets", async () => {
+      const domain = getTicketsTools();
+
+      const noChange = await domain.handleCall("superops_tickets_bulk_update", {
+        ticketIds: ["1"],
+      });
+      const both = await domain.handleCall("superops_tickets_bulk_update", {
+        ticketIds: ["1"],
+        filter: { status: ["Open"] },
+        status: "Closed",
+      });
+      const emptyFilter = await domain.handleCall("superops_tickets_bulk_update", {
+        filter: {},
+        status: "Closed",
+      });
+
+      expect(textOf(noChange)).toContain("Provide at least one change");
+      expect(textOf(both)).toContain("Provide either ticketIds or filter, but not both.");
+      expect(textOf(emptyFilter)).toContain("The filter must set at least one condition.");
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(mockClient.mutate).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Error handling", () => {
     it("returns error for unknown tool", async () => {
       const domain = getTicketsTools();
       const result = await domain.handleCall("unknown_tool", {});
 
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain("Unknown tickets tool");
+      expect(textOf(result)).toContain("Unknown tickets tool");
     });
 
     it("handles API errors gracefully", async () => {
@@ -542,7 +2012,7 @@ describe("Tickets Domain", () => {
       const result = await domain.handleCall("superops_tickets_list", {});
 
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain("Error: API rate limit exceeded");
+      expect(textOf(result)).toContain("Error: API rate limit exceeded");
     });
 
     it("handles mutation errors gracefully", async () => {
@@ -555,7 +2025,26 @@ describe("Tickets Domain", () => {
       });
 
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain("Error: Validation failed");
+      expect(textOf(result)).toContain("Error: Validation failed");
+    });
+
+    it("lists allowed values when the API rejects a field", async () => {
+      mockClient.mutate.mockRejectedValue(
+        new SuperOpsError("Invalid value", { code: "BAD_USER_INPUT", field: "priority" })
+      );
+
+      const domain = getTicketsTools();
+      const result = await domain.handleCall("superops_tickets_create", {
+        subject: "Test",
+        clientId: "123",
+        priority: "Urgent",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Error (validation): Invalid value");
+      expect(textOf(result)).toContain(
+        "Allowed values are: Low, Medium, High, Critical."
+      );
     });
   });
 });
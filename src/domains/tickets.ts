@@ -5,12 +5,103 @@
  */
 
 import { getClient } from "../client.js";
-import type { DomainTools, Ticket, ListInfo } from "../types.js";
+import { SuperOpsError, errorResult } from "../errors.js";
+import { TICKET_FIELDS, fieldsProperty, selectFields } from "../fields.js";
+import {
+  formatProperty,
+  formatRows,
+  jsonResult,
+  listResult,
+  type OutputFormat,
+} from "../format.js";
+import { messageFormatProperty, messageToHtml, type MessageFormat } from "../markdown.js";
+import { fetchList, paginationProperties } from "../pagination.js";
+import {
+  ATTACHMENT_SCHEMA,
+  BOOLEAN,
+  CONVERSATION_ENTRY_SCHEMA,
+  NUMBER,
+  PAGINATION_SCHEMA,
+  STRING,
+  TICKET_NOTE_SCHEMA,
+  TICKET_SCHEMA,
+  TIME_ENTRY_SCHEMA,
+  arrayOf,
+  entityOutputSchema,
+  listOutputSchema,
+  objectOf,
+  outputSchema,
+} from "../schemas.js";
+import type {
+  Attachment,
+  ConversationEntry,
+  DomainTools,
+  EmbeddedResource,
+  Ticket,
+  TimeEntry,
+  ToolContent,
+  ListInfo,
+} from "../types.js";
+import {
+  buildTicketFilter,
+  buildTicketOrder,
+  dateRangeProperties,
+  orderProperties,
+  parseDate,
+  slaStatusProperty,
+  type TicketFilterArgs,
+  type TicketOrderArgs,
+} from "./tickets-filter.js";
+import {
+  assertWithinLimit,
+  attachmentContent,
+  base64Size,
+  uploadFile,
+} from "./tickets-attachments.js";
+import {
+  BULK_CONCURRENCY,
+  MAX_BULK_TICKETS,
+  mapWithConcurrency,
+  settleTicket,
+  summarizeBulkUpdate,
+  type BulkTicketResult,
+  type BulkUpdateReport,
+} from "./tickets-bulk.js";
+import {
+  OPEN_STATUSES,
+  buildSlaReport,
+  summarizeSlaReport,
+  type SlaGroup,
+  type SlaReport,
+  type SlaRow,
+  type SlaTargetResult,
+} from "./tickets-sla.js";
+import {
+  findTemplate,
+  loadTemplates,
+  placeholdersOf,
+  renderReplyTemplate,
+  renderTicketTemplate,
+} from "./tickets-templates.js";
 
-const LIST_TICKETS_QUERY = `
+function listTicketsQuery(selection: string): string {
+  return `
   query getTicketList($input: ListInfoInput!) {
     getTicketList(input: $input) {
       tickets {
+${selection}
+      }
+      listInfo {
+        totalCount
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+}
+
+const LIST_TICKETS_QUERY = listTicketsQuery(`
         ticketId
         ticketNumber
         subject
@@ -18,6 +109,11 @@ const LIST_TICKETS_QUERY = `
         priority
         createdTime
         lastUpdatedTime
+        firstResponseDueTime
+        firstResponseTime
+        resolutionDueTime
+        firstResponseViolated
+        resolutionViolated
         client {
           accountId
           name
@@ -30,20 +126,19 @@ const LIST_TICKETS_QUERY = `
           id
           name
           email
-        }
-      }
-      listInfo {
-        totalCount
-        hasNextPage
-        endCursor
-      }
+        }`);
+
+function getTicketQuery(selection: string): string {
+  return `
+  query getTicket($input: TicketIdentifierInput!) {
+    getTicket(input: $input) {
+${selection}
     }
   }
 `;
+}
 
-const GET_TICKET_QUERY = `
-  query getTicket($input: TicketIdentifierInput!) {
-    getTicket(input: $input) {
+const GET_TICKET_QUERY = getTicketQuery(`
       ticketId
       ticketNumber
       subject
@@ -54,6 +149,12 @@ const GET_TICKET_QUERY = `
       urgency
       createdTime
       lastUpdatedTime
+      firstResponseDueTime
+      firstResponseTime
+      firstResponseViolated
+      resolutionDueTime
+      resolutionTime
+      resolutionViolated
       client {
         accountId
         name
@@ -85,9 +186,13 @@ const GET_TICKET_QUERY = `
         name
         value
       }
-    }
-  }
-`;
+      linkedTickets {
+        ticketId
+        ticketNumber
+        subject
+        status
+        linkType
+      }`);
 
 const CREATE_TICKET_MUTATION = `
   mutation createTicket($input: CreateTicketInput!) {
@@ -126,6 +231,85 @@ const UPDATE_TICKET_MUTATION = `
   }
 `;
 
+// Closes the children, moving their notes and time entries to the parent
+const MERGE_TICKETS_MUTATION = `
+  mutation mergeTickets($input: MergeTicketsInput!) {
+    mergeTickets(input: $input) {
+      ticketId
+      ticketNumber
+      subject
+      status
+      linkedTickets {
+        ticketId
+        ticketNumber
+        subject
+        status
+        linkType
+      }
+      lastUpdatedTime
+    }
+  }
+`;
+
+// Creates a child of the ticket, moving the given notes and time entries to it
+const SPLIT_TICKET_MUTATION = `
+  mutation splitTicket($input: SplitTicketInput!) {
+    splitTicket(input: $input) {
+      ticketId
+      ticketNumber
+      subject
+      status
+      priority
+      createdTime
+      client {
+        accountId
+        name
+      }
+      linkedTickets {
+        ticketId
+        ticketNumber
+        subject
+        status
+        linkType
+      }
+    }
+  }
+`;
+
+const LINK_TICKETS_MUTATION = `
+  mutation linkTickets($input: LinkTicketsInput!) {
+    linkTickets(input: $input) {
+      ticketId
+      ticketNumber
+      subject
+      linkedTickets {
+        ticketId
+        ticketNumber
+        subject
+        status
+        linkType
+      }
+    }
+  }
+`;
+
+const UNLINK_TICKETS_MUTATION = `
+  mutation unlinkTickets($input: UnlinkTicketsInput!) {
+    unlinkTickets(input: $input) {
+      ticketId
+      ticketNumber
+      subject
+      linkedTickets {
+        ticketId
+        ticketNumber
+        subject
+        status
+        linkType
+      }
+    }
+  }
+`;
+
 const ADD_TICKET_NOTE_MUTATION = `
   mutation addTicketNote($input: AddTicketNoteInput!) {
     addTicketNote(input: $input) {
@@ -141,6 +325,26 @@ const ADD_TICKET_NOTE_MUTATION = `
   }
 `;
 
+const ADD_TICKET_REPLY_MUTATION = `
+  mutation addTicketReply($input: AddTicketReplyInput!) {
+    addTicketReply(input: $input) {
+      entryId
+      type
+      createdTime
+      author {
+        id
+        name
+        email
+      }
+      content
+      isPublic
+      cc
+      fromStatus
+      toStatus
+    }
+  }
+`;
+
 const ADD_TIME_ENTRY_MUTATION = `
   mutation addTicketTimeEntry($input: AddTimeEntryInput!) {
     addTicketTimeEntry(input: $input) {
@@ -157,6 +361,294 @@ const ADD_TIME_ENTRY_MUTATION = `
   }
 `;
 
+const LIST_TIME_ENTRIES_QUERY = `
+  query getTimeEntryList($input: TimeEntryListInput!) {
+    getTimeEntryList(input: $input) {
+      timeEntries {
+        timeEntryId
+        ticketId
+        duration
+        description
+        workType
+        billable
+        technician {
+          id
+          name
+        }
+        createdTime
+      }
+      listInfo {
+        totalCount
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const UPDATE_TIME_ENTRY_MUTATION = `
+  mutation updateTicketTimeEntry($input: UpdateTimeEntryInput!) {
+    updateTicketTimeEntry(input: $input) {
+      timeEntryId
+      ticketId
+      duration
+      description
+      workType
+      billable
+      technician {
+        id
+        name
+      }
+      createdTime
+    }
+  }
+`;
+
+const DELETE_TIME_ENTRY_MUTATION = `
+  mutation deleteTicketTimeEntry($input: TimeEntryIdentifierInput!) {
+    deleteTicketTimeEntry(input: $input)
+  }
+`;
+
+const GET_TICKET_CONVERSATION_QUERY = `
+  query getTicketConversationList($input: TicketConversationListInput!) {
+    getTicketConversationList(input: $input) {
+      entries {
+        entryId
+        type
+        createdTime
+        author {
+          id
+          name
+          email
+        }
+        content
+        isPublic
+        cc
+        duration
+        workType
+        billable
+        fromStatus
+        toStatus
+      }
+      listInfo {
+        totalCount
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const LIST_TICKET_ATTACHMENTS_QUERY = `
+  query getTicketAttachmentList($input: TicketIdentifierInput!) {
+    getTicketAttachmentList(input: $input) {
+      attachmentId
+      fileName
+      fileSize
+      contentType
+      createdTime
+      uploadedBy {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const GET_TICKET_ATTACHMENT_QUERY = `
+  query getTicketAttachment($input: TicketAttachmentIdentifierInput!) {
+    getTicketAttachment(input: $input) {
+      attachmentId
+      fileName
+      fileSize
+      contentType
+      createdTime
+      uploadedBy {
+        id
+        name
+      }
+    }
+  }
+`;
+
+// Fetched separately so oversized files are refused before they are downloaded
+const GET_TICKET_ATTACHMENT_CONTENT_QUERY = `
+  query getTicketAttachment($input: TicketAttachmentIdentifierInput!) {
+    getTicketAttachment(input: $input) {
+      attachmentId
+      content
+    }
+  }
+`;
+
+const UPLOAD_TICKET_ATTACHMENT_MUTATION = `
+  mutation uploadTicketAttachment($input: UploadTicketAttachmentInput!) {
+    uploadTicketAttachment(input: $input) {
+      attachmentId
+      fileName
+      fileSize
+      contentType
+      createdTime
+      uploadedBy {
+        id
+        name
+      }
+    }
+  }
+`;
+
+// Loose check that catches typos, leaving full validation to the API
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Fields the SLA report reads from each ticket
+const SLA_REPORT_FIELDS = [
+  "ticketNumber",
+  "subject",
+  "priority",
+  "status",
+  "client",
+  "assignee",
+  "techGroup",
+  "createdTime",
+  "firstResponseDueTime",
+  "firstResponseTime",
+  "firstResponseViolated",
+  "resolutionDueTime",
+  "resolutionTime",
+  "resolutionViolated",
+];
+
+const SLA_TARGET_SCHEMA = objectOf<SlaTargetResult>({
+  targetMinutes: NUMBER,
+  elapsedMinutes: NUMBER,
+  status: STRING,
+});
+
+const SLA_ROW_SCHEMA = objectOf<SlaRow>({
+  ticketId: STRING,
+  ticketNumber: STRING,
+  subject: STRING,
+  priority: STRING,
+  client: STRING,
+  assignee: STRING,
+  techGroup: STRING,
+  slaStatus: STRING,
+  firstResponse: SLA_TARGET_SCHEMA,
+  resolution: SLA_TARGET_SCHEMA,
+});
+
+const SLA_GROUP_SCHEMA = objectOf<SlaGroup>({
+  name: STRING,
+  breached: NUMBER,
+  atRisk: NUMBER,
+});
+
+const SLA_SUMMARY_SCHEMA = objectOf<SlaReport["summary"]>({
+  total: NUMBER,
+  breached: NUMBER,
+  atRisk: NUMBER,
+  ok: NUMBER,
+});
+
+// Fields shown when previewing a bulk update
+const BULK_PREVIEW_FIELDS = [
+  "ticketNumber",
+  "subject",
+  "status",
+  "priority",
+  "assignee",
+  "techGroup",
+];
+
+// Changes superops_tickets_update and superops_tickets_bulk_update can make
+interface TicketChanges {
+  status?: string;
+  priority?: string;
+  assigneeId?: string;
+  techGroupName?: string;
+  resolution?: string;
+}
+
+const BULK_RESULT_SCHEMA = objectOf<BulkTicketResult>({
+  ticketId: STRING,
+  success: BOOLEAN,
+  ticket: TICKET_SCHEMA,
+  error: STRING,
+});
+
+/**
+ * Mutation input applying `changes` to one ticket.
+ */
+function updateTicketInput(ticketId: string, changes: TicketChanges): Record<string, unknown> {
+  const input: Record<string, unknown> = { ticketId };
+  if (changes.status) input.status = changes.status;
+  if (changes.priority) input.priority = changes.priority.toUpperCase();
+  if (changes.assigneeId) input.assignee = { id: changes.assigneeId };
+  if (changes.techGroupName) input.techGroup = { name: changes.techGroupName };
+  if (changes.resolution) input.resolution = changes.resolution;
+  return input;
+}
+
+// Fields superops_tickets_create and superops_tickets_create_from_template set
+interface NewTicket {
+  subject: string;
+  description?: string;
+  clientId: string;
+  priority?: string;
+  requesterEmail?: string;
+  techGroupName?: string;
+  categoryName?: string;
+}
+
+/**
+ * Mutation input creating a ticket.
+ */
+function createTicketInput(ticket: NewTicket): Record<string, unknown> {
+  const input: Record<string, unknown> = {
+    subject: ticket.subject,
+    client: { accountId: ticket.clientId },
+  };
+  if (ticket.description) input.description = ticket.description;
+  if (ticket.priority) input.priority = ticket.priority.toUpperCase();
+  if (ticket.requesterEmail) input.requester = { email: ticket.requesterEmail };
+  if (ticket.techGroupName) input.techGroup = { name: ticket.techGroupName };
+  if (ticket.categoryName) input.category = { name: ticket.categoryName };
+  return input;
+}
+
+const TICKET_TEMPLATE_SUMMARY_SCHEMA = objectOf<{
+  name: string;
+  summary: string;
+  subject: string;
+  priority: string;
+  category: string;
+  techGroup: string;
+  placeholders: string[];
+}>({
+  name: STRING,
+  summary: STRING,
+  subject: STRING,
+  priority: STRING,
+  category: STRING,
+  techGroup: STRING,
+  placeholders: arrayOf(STRING),
+});
+
+const REPLY_TEMPLATE_SUMMARY_SCHEMA = objectOf<{
+  name: string;
+  summary: string;
+  messageFormat: string;
+  status: string;
+  placeholders: string[];
+}>({
+  name: STRING,
+  summary: STRING,
+  messageFormat: STRING,
+  status: STRING,
+  placeholders: arrayOf(STRING),
+});
+
 interface ListTicketsResponse {
   getTicketList: {
     tickets: Ticket[];
@@ -176,6 +668,60 @@ interface UpdateTicketResponse {
   updateTicket: Ticket;
 }
 
+interface MergeTicketsResponse {
+  mergeTickets: Ticket;
+}
+
+interface SplitTicketResponse {
+  splitTicket: Ticket;
+}
+
+interface LinkTicketsResponse {
+  linkTickets: Ticket;
+}
+
+interface UnlinkTicketsResponse {
+  unlinkTickets: Ticket;
+}
+
+interface ListTimeEntriesResponse {
+  getTimeEntryList: {
+    timeEntries: TimeEntry[];
+    listInfo: ListInfo;
+  };
+}
+
+interface UpdateTimeEntryResponse {
+  updateTicketTimeEntry: TimeEntry | null;
+}
+
+interface DeleteTimeEntryResponse {
+  deleteTicketTimeEntry: boolean | null;
+}
+
+interface TicketConversationResponse {
+  getTicketConversationList: {
+    entries: ConversationEntry[];
+    listInfo: ListInfo;
+  } | null;
+}
+
+interface ListTicketAttachmentsResponse {
+  getTicketAttachmentList: Attachment[] | null;
+}
+
+interface GetTicketAttachmentResponse {
+  getTicketAttachment: Attachment | null;
+}
+
+interface GetTicketAttachmentContentResponse {
+  getTicketAttachment: { attachmentId: string; content: string } | null;
+}
+
+interface UploadTicketAttachmentResponse {
+  uploadTicketAttachment: Attachment;
+}
+
 interface AddNoteResponse {
   addTicketNote: {
     noteId: string;
@@ -186,6 +732,10 @@ interface AddNoteResponse {
   };
 }
 
+interface AddReplyResponse {
+  addTicketReply: ConversationEntry;
+}
+
 interface AddTimeEntryResponse {
   addTicketTimeEntry: {
     timeEntryId: string;
@@ -197,25 +747,28 @@ interface AddTimeEntryResponse {
   };
 }
 
-export function getTicketsTools(): DomainTools {
+export function getTicketsTools(): DomainTools<ToolContent> {
   return {
     tools: [
       {
         name: "superops_tickets_list",
         description:
-          "List tickets in SuperOps.ai. Can filter by status, priority, client, or assignee.",
+          "List tickets in SuperOps.ai. Can filter by status, priority, client, assignee, created/updated date range, or SLA status, and sort by any of several fields.",
         inputSchema: {
           type: "object",
           properties: {
             status: {
               type: "array",
-              items: { type: "string" },
+              items: {
+                type: "string",
+                enum: ["Open", "In Progress", "Pending", "Resolved", "Closed"],
+              },
               description:
                 "Filter by status(es): Open, In Progress, Pending, Resolved, Closed",
             },
             priority: {
               type: "array",
-              items: { type: "string" },
+              items: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
               description: "Filter by priority(ies): Low, Medium, High, Critical",
             },
             clientId: {
@@ -230,17 +783,26 @@ export function getTicketsTools(): DomainTools {
               type: "boolean",
               description: "Show only unassigned tickets",
             },
+            ...dateRangeProperties,
+            slaStatus: slaStatusProperty,
+            ...orderProperties,
             max: {
               type: "number",
               description: "Maximum number of results (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
               default: 50,
             },
             cursor: {
               type: "string",
               description: "Pagination cursor for fetching next page",
             },
+            ...paginationProperties,
+            format: formatProperty,
+            fields: fieldsProperty(TICKET_FIELDS, "ticket"),
           },
         },
+        outputSchema: listOutputSchema("tickets", TICKET_SCHEMA),
       },
       {
         name: "superops_tickets_get",
@@ -252,51 +814,175 @@ export function getTicketsTools(): DomainTools {
               type: "string",
               description: "The unique ticket ID",
             },
+            fields: fieldsProperty(TICKET_FIELDS, "ticket"),
           },
           required: ["ticketId"],
         },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
       },
       {
-        name: "superops_tickets_create",
-        description: "Create a new ticket in SuperOps.ai.",
+        name: "superops_tickets_search",
+        description:
+          "Search tickets by keyword in the subject or description, combined with filters on client, requester, category, tech group, status, priority, SLA status and created/updated date ranges.",
         inputSchema: {
           type: "object",
           properties: {
-            subject: {
-              type: "string",
-              description: "Ticket subject/title",
-            },
-            description: {
+            query: {
               type: "string",
-              description: "Detailed description of the issue",
+              description: "Keyword or phrase to find in the ticket subject or description",
             },
             clientId: {
               type: "string",
-              description: "Client account ID",
+              description: "Filter by client account ID",
             },
-            priority: {
+            clientName: {
               type: "string",
-              description: "Ticket priority: Low, Medium, High, or Critical",
-              enum: ["Low", "Medium", "High", "Critical"],
+              description: "Filter by client name (partial match)",
             },
             requesterEmail: {
               type: "string",
-              description: "Email of the person reporting the issue",
+              description: "Filter by the requester's email address",
             },
-            techGroupName: {
+            categoryName: {
               type: "string",
-              description: "Name of the technician group to assign",
+              description: "Filter by service category name",
             },
-            categoryName: {
+            techGroupName: {
               type: "string",
-              description: "Service category name",
+              description: "Filter by technician group name",
             },
-          },
-          required: ["subject", "clientId"],
-        },
-      },
-      {
-        name: "superops_tickets_update",
+            status: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["Open", "In Progress", "Pending", "Resolved", "Closed"],
+              },
+              description:
+                "Filter by status(es): Open, In Progress, Pending, Resolved, Closed",
+            },
+            priority: {
+              type: "array",
+              items: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
+              description: "Filter by priority(ies): Low, Medium, High, Critical",
+            },
+            ...dateRangeProperties,
+            slaStatus: slaStatusProperty,
+            ...orderProperties,
+            max: {
+              type: "number",
+              description: "Maximum number of results (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
+              default: 50,
+            },
+            cursor: {
+              type: "string",
+              description: "Pagination cursor for fetching next page",
+            },
+            ...paginationProperties,
+            format: formatProperty,
+            fields: fieldsProperty(TICKET_FIELDS, "ticket"),
+          },
+        },
+        outputSchema: listOutputSchema("tickets", TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_create",
+        description: "Create a new ticket in SuperOps.ai.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            subject: {
+              type: "string",
+              description: "Ticket subject/title",
+            },
+            description: {
+              type: "string",
+              description: "Detailed description of the issue",
+            },
+            clientId: {
+              type: "string",
+              description: "Client account ID",
+            },
+            priority: {
+              type: "string",
+              description: "Ticket priority: Low, Medium, High, or Critical",
+              enum: ["Low", "Medium", "High", "Critical"],
+            },
+            requesterEmail: {
+              type: "string",
+              description: "Email of the person reporting the issue",
+            },
+            techGroupName: {
+              type: "string",
+              description: "Name of the technician group to assign",
+            },
+            categoryName: {
+              type: "string",
+              description: "Service category name",
+            },
+          },
+          required: ["subject", "clientId"],
+        },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_list_templates",
+        description:
+          "List the ticket templates and canned replies configured for this server, with the placeholders each one needs.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: outputSchema({
+          tickets: arrayOf(TICKET_TEMPLATE_SUMMARY_SCHEMA),
+          replies: arrayOf(REPLY_TEMPLATE_SUMMARY_SCHEMA),
+        }),
+      },
+      {
+        name: "superops_tickets_create_from_template",
+        description:
+          "Create a ticket from a configured template, filling its {{placeholders}} from variables. Use superops_tickets_list_templates to see the templates.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            template: {
+              type: "string",
+              description: "Name of the ticket template",
+            },
+            clientId: {
+              type: "string",
+              description: "Client account ID",
+            },
+            variables: {
+              type: "object",
+              description:
+                'Values for the template\'s placeholders, e.g. { "name": "Jane Doe" } for {{name}}',
+            },
+            requesterEmail: {
+              type: "string",
+              description: "Email of the person reporting the issue",
+            },
+            priority: {
+              type: "string",
+              description: "Override the template's priority: Low, Medium, High, or Critical",
+              enum: ["Low", "Medium", "High", "Critical"],
+            },
+            techGroupName: {
+              type: "string",
+              description: "Override the template's technician group",
+            },
+            categoryName: {
+              type: "string",
+              description: "Override the template's service category",
+            },
+          },
+          required: ["template", "clientId"],
+        },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_update",
         description:
           "Update an existing ticket - change status, priority, assignment, or add resolution.",
         inputSchema: {
@@ -331,6 +1017,109 @@ export function getTicketsTools(): DomainTools {
           },
           required: ["ticketId"],
         },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_merge",
+        description:
+          "Merge duplicate tickets into a parent ticket. The child tickets are closed and linked to the parent, and their notes and time entries are moved to it.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            parentTicketId: {
+              type: "string",
+              description: "The ticket to keep",
+            },
+            childTicketIds: {
+              type: "array",
+              items: { type: "string" },
+              minItems: 1,
+              description: "The duplicate tickets to merge into the parent",
+            },
+            moveNotes: {
+              type: "boolean",
+              description: "Move the children's notes to the parent (default: true)",
+              default: true,
+            },
+            moveTimeEntries: {
+              type: "boolean",
+              description: "Move the children's time entries to the parent (default: true)",
+              default: true,
+            },
+          },
+          required: ["parentTicketId", "childTicketIds"],
+        },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_split",
+        description:
+          "Split work out of a ticket into a new ticket. The selected notes and time entries are moved to the new ticket, which keeps the original's client and requester and is linked to it as a child.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket to split",
+            },
+            subject: {
+              type: "string",
+              description: "Subject of the new ticket",
+            },
+            description: {
+              type: "string",
+              description: "Description of the new ticket",
+            },
+            noteIds: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Notes to move to the new ticket (entryId values from superops_tickets_get_conversation)",
+            },
+            timeEntryIds: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Time entries to move to the new ticket (timeEntryId values from superops_tickets_list_time)",
+            },
+          },
+          required: ["ticketId", "subject"],
+        },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
+      },
+      {
+        name: "superops_tickets_link",
+        description:
+          "Link tickets to a ticket as children, as its parent, or as related tickets, or remove existing links.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket to link the others to",
+            },
+            linkedTicketIds: {
+              type: "array",
+              items: { type: "string" },
+              minItems: 1,
+              description: "The tickets to link or unlink",
+            },
+            linkType: {
+              type: "string",
+              description:
+                "How the linked tickets relate to ticketId: child (they become its children), parent (it becomes their child), or related (default: related)",
+              enum: ["child", "parent", "related"],
+              default: "related",
+            },
+            unlink: {
+              type: "boolean",
+              description: "Remove the links instead of adding them (default: false)",
+              default: false,
+            },
+          },
+          required: ["ticketId", "linkedTicketIds"],
+        },
+        outputSchema: entityOutputSchema(TICKET_SCHEMA),
       },
       {
         name: "superops_tickets_add_note",
@@ -354,6 +1143,48 @@ export function getTicketsTools(): DomainTools {
           },
           required: ["ticketId", "content"],
         },
+        outputSchema: entityOutputSchema(TICKET_NOTE_SCHEMA),
+      },
+      {
+        name: "superops_tickets_reply",
+        description:
+          "Send a public reply to the ticket's requester, written as plain text or Markdown or taken from a canned reply, optionally copying other addresses and changing the ticket's status (e.g. to Pending) in the same action.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket ID",
+            },
+            message: {
+              type: "string",
+              description: "The reply to send. Use this or template.",
+            },
+            messageFormat: messageFormatProperty,
+            template: {
+              type: "string",
+              description:
+                "Name of a canned reply to send instead of message (see superops_tickets_list_templates)",
+            },
+            variables: {
+              type: "object",
+              description: "Values for the canned reply's placeholders",
+            },
+            cc: {
+              type: "array",
+              items: { type: "string" },
+              description: "Email addresses to copy on the reply",
+            },
+            status: {
+              type: "string",
+              description:
+                "Set the ticket to this status along with the reply, overriding the canned reply's: Open, In Progress, Pending, Resolved, Closed",
+              enum: ["Open", "In Progress", "Pending", "Resolved", "Closed"],
+            },
+          },
+          required: ["ticketId"],
+        },
+        outputSchema: entityOutputSchema(CONVERSATION_ENTRY_SCHEMA),
       },
       {
         name: "superops_tickets_log_time",
@@ -363,88 +1194,468 @@ export function getTicketsTools(): DomainTools {
           properties: {
             ticketId: {
               type: "string",
-              description: "The ticket ID",
+              description: "The ticket ID",
+            },
+            duration: {
+              type: "number",
+              description: "Time spent in minutes",
+              minimum: 1,
+            },
+            description: {
+              type: "string",
+              description: "Description of work performed",
+            },
+            workType: {
+              type: "string",
+              description: "Type of work (e.g., Remote Support, On-site, Phone)",
+            },
+            billable: {
+              type: "boolean",
+              description: "Whether the time is billable (default: true)",
+              default: true,
+            },
+          },
+          required: ["ticketId", "duration"],
+        },
+        outputSchema: entityOutputSchema(TIME_ENTRY_SCHEMA),
+      },
+      {
+        name: "superops_tickets_list_time",
+        description:
+          "List logged time entries, newest first, for a ticket, a technician, or a date range, e.g. to audit billable time before invoicing.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "Only time logged on this ticket",
+            },
+            technicianId: {
+              type: "string",
+              description: "Only time logged by this technician",
+            },
+            loggedAfter: {
+              type: "string",
+              description: "Only time entries logged at or after this ISO 8601 date or time",
+            },
+            loggedBefore: {
+              type: "string",
+              description: "Only time entries logged before this ISO 8601 date or time",
+            },
+            billable: {
+              type: "boolean",
+              description: "Only billable (true) or non-billable (false) time",
+            },
+            max: {
+              type: "number",
+              description: "Maximum number of results (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
+              default: 50,
+            },
+            cursor: {
+              type: "string",
+              description: "Pagination cursor for fetching the next page",
+            },
+            ...paginationProperties,
+            format: formatProperty,
+          },
+        },
+        outputSchema: listOutputSchema("timeEntries", TIME_ENTRY_SCHEMA),
+      },
+      {
+        name: "superops_tickets_update_time",
+        description:
+          "Correct a logged time entry's duration, description, work type or billable flag.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            timeEntryId: {
+              type: "string",
+              description: "The time entry ID, from superops_tickets_list_time",
+            },
+            duration: {
+              type: "number",
+              description: "Time spent in minutes",
+              minimum: 1,
+            },
+            description: {
+              type: "string",
+              description: "Description of work performed",
+            },
+            workType: {
+              type: "string",
+              description: "Type of work (e.g., Remote Support, On-site, Phone)",
+            },
+            billable: {
+              type: "boolean",
+              description: "Whether the time is billable",
+            },
+          },
+          required: ["timeEntryId"],
+        },
+        outputSchema: entityOutputSchema(TIME_ENTRY_SCHEMA),
+      },
+      {
+        name: "superops_tickets_delete_time",
+        description: "Delete a logged time entry, e.g. one logged twice by mistake.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            timeEntryId: {
+              type: "string",
+              description: "The time entry ID, from superops_tickets_list_time",
+            },
+          },
+          required: ["timeEntryId"],
+        },
+        outputSchema: outputSchema({ timeEntryId: STRING, deleted: BOOLEAN }),
+      },
+      {
+        name: "superops_tickets_get_conversation",
+        description:
+          "Get a ticket's conversation history in chronological order: public replies, internal notes, time entries, and status changes, each with its author and timestamp.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket ID",
+            },
+            types: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["REPLY", "NOTE", "TIME_ENTRY", "STATUS_CHANGE"],
+              },
+              description:
+                "Only include these entry types: REPLY, NOTE, TIME_ENTRY, STATUS_CHANGE (default: all)",
+            },
+            max: {
+              type: "number",
+              description: "Maximum number of entries (default: 50, max: 500)",
+              minimum: 1,
+              maximum: 500,
+              default: 50,
+            },
+            cursor: {
+              type: "string",
+              description: "Pagination cursor for fetching the next page",
+            },
+            ...paginationProperties,
+            format: formatProperty,
+          },
+          required: ["ticketId"],
+        },
+        outputSchema: listOutputSchema("entries", CONVERSATION_ENTRY_SCHEMA),
+      },
+      {
+        name: "superops_tickets_list_attachments",
+        description: "List the files attached to a ticket, with their name, size and content type.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket ID",
+            },
+          },
+          required: ["ticketId"],
+        },
+        outputSchema: outputSchema({ attachments: arrayOf(ATTACHMENT_SCHEMA) }),
+      },
+      {
+        name: "superops_tickets_get_attachment",
+        description:
+          "Download a ticket attachment. Text files are returned inline; other files as an embedded resource with base64 data. Files over the configured size limit are refused.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket ID",
+            },
+            attachmentId: {
+              type: "string",
+              description: "The attachment ID, from superops_tickets_list_attachments",
+            },
+          },
+          required: ["ticketId", "attachmentId"],
+        },
+        outputSchema: entityOutputSchema(ATTACHMENT_SCHEMA),
+      },
+      {
+        name: "superops_tickets_upload_attachment",
+        description:
+          "Attach a file to a ticket, given as base64 content or an embedded resource. Files over the configured size limit are refused.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketId: {
+              type: "string",
+              description: "The ticket ID",
+            },
+            fileName: {
+              type: "string",
+              description: "File name, e.g. error.log (default: the last part of the resource URI)",
+            },
+            contentType: {
+              type: "string",
+              description:
+                "MIME type, e.g. image/png (default: the resource's MIME type, or application/octet-stream)",
+            },
+            content: {
+              type: "string",
+              description:
+                "Base64-encoded file data, optionally as a data: URL. Use this or resource.",
+            },
+            resource: {
+              type: "object",
+              description:
+                "An embedded resource holding the file as text or a base64 blob. Use this or content.",
+              properties: {
+                uri: { type: "string" },
+                mimeType: { type: "string" },
+                text: { type: "string" },
+                blob: { type: "string" },
+              },
+              required: ["uri"],
+            },
+          },
+          required: ["ticketId"],
+        },
+        outputSchema: entityOutputSchema(ATTACHMENT_SCHEMA),
+      },
+      {
+        name: "superops_tickets_sla_report",
+        description:
+          "Report open tickets that have breached or are close to breaching their first response or resolution SLA, with time elapsed against each target, grouped by client, technician and tech group.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            clientId: {
+              type: "string",
+              description: "Only report on this client account's tickets",
+            },
+            assigneeId: {
+              type: "string",
+              description: "Only report on tickets assigned to this technician",
+            },
+            techGroupName: {
+              type: "string",
+              description: "Only report on tickets in this technician group",
+            },
+            priority: {
+              type: "array",
+              items: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
+              description: "Only report on these priority(ies): Low, Medium, High, Critical",
+            },
+            includeOk: {
+              type: "boolean",
+              description: "Also list tickets within SLA (default: false)",
+              default: false,
+            },
+            maxTotal: paginationProperties.maxTotal,
+            format: formatProperty,
+          },
+        },
+        outputSchema: outputSchema({
+          generatedAt: STRING,
+          summary: SLA_SUMMARY_SCHEMA,
+          byClient: arrayOf(SLA_GROUP_SCHEMA),
+          byTechnician: arrayOf(SLA_GROUP_SCHEMA),
+          byTechGroup: arrayOf(SLA_GROUP_SCHEMA),
+          tickets: arrayOf(SLA_ROW_SCHEMA),
+          pagination: PAGINATION_SCHEMA,
+        }),
+      },
+      {
+        name: "superops_tickets_bulk_update",
+        description:
+          "Update status, priority, assignee or tech group on many tickets at once, chosen by ID or by a list filter. Use dryRun to preview the affected tickets first. Reports success or failure per ticket.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ticketIds: {
+              type: "array",
+              items: { type: "string" },
+              minItems: 1,
+              maxItems: MAX_BULK_TICKETS,
+              description: `IDs of the tickets to update (max: ${MAX_BULK_TICKETS}). Use this or filter.`,
+            },
+            filter: {
+              type: "object",
+              description:
+                "Update the tickets matching these superops_tickets_list filters instead of listing IDs",
+              properties: {
+                status: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: ["Open", "In Progress", "Pending", "Resolved", "Closed"],
+                  },
+                  description:
+                    "Filter by status(es): Open, In Progress, Pending, Resolved, Closed",
+                },
+                priority: {
+                  type: "array",
+                  items: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
+                  description: "Filter by priority(ies): Low, Medium, High, Critical",
+                },
+                clientId: {
+                  type: "string",
+                  description: "Filter by client account ID",
+                },
+                assigneeId: {
+                  type: "string",
+                  description: "Filter by assigned technician ID",
+                },
+                unassigned: {
+                  type: "boolean",
+                  description: "Only unassigned tickets",
+                },
+                ...dateRangeProperties,
+                slaStatus: slaStatusProperty,
+              },
+            },
+            maxTickets: {
+              type: "number",
+              description: `Refuse to run if the filter matches more tickets than this (default: 100, max: ${MAX_BULK_TICKETS})`,
+              minimum: 1,
+              maximum: MAX_BULK_TICKETS,
+              default: 100,
+            },
+            status: {
+              type: "string",
+              description: "New status: Open, In Progress, Pending, Resolved, Closed",
+              enum: ["Open", "In Progress", "Pending", "Resolved", "Closed"],
             },
-            duration: {
-              type: "number",
-              description: "Time spent in minutes",
+            priority: {
+              type: "string",
+              description: "New priority: Low, Medium, High, Critical",
+              enum: ["Low", "Medium", "High", "Critical"],
             },
-            description: {
+            assigneeId: {
               type: "string",
-              description: "Description of work performed",
+              description: "ID of technician to assign",
             },
-            workType: {
+            techGroupName: {
               type: "string",
-              description: "Type of work (e.g., Remote Support, On-site, Phone)",
+              description: "Name of technician group to assign",
             },
-            billable: {
+            dryRun: {
               type: "boolean",
-              description: "Whether the time is billable (default: true)",
-              default: true,
+              description: "List the tickets that would be updated without changing them (default: false)",
+              default: false,
             },
           },
-          required: ["ticketId", "duration"],
         },
+        outputSchema: outputSchema({
+          dryRun: BOOLEAN,
+          changes: objectOf<TicketChanges>({
+            status: STRING,
+            priority: STRING,
+            assigneeId: STRING,
+            techGroupName: STRING,
+            resolution: STRING,
+          }),
+          total: NUMBER,
+          succeeded: NUMBER,
+          failed: NUMBER,
+          results: arrayOf(BULK_RESULT_SCHEMA),
+        }),
       },
     ],
 
-    async handleCall(name, args) {
-      const client = getClient();
+    async handleCall(name, args, context) {
+      const client = getClient(context);
 
       try {
         switch (name) {
           case "superops_tickets_list": {
-            const params = args as {
-              status?: string[];
-              priority?: string[];
-              clientId?: string;
-              assigneeId?: string;
-              unassigned?: boolean;
-              max?: number;
-              cursor?: string;
-            };
+            const params = args as TicketFilterArgs &
+              TicketOrderArgs & {
+                max?: number;
+                cursor?: string;
+                all?: boolean;
+                maxTotal?: number;
+                format?: OutputFormat;
+                fields?: string[];
+              };
 
-            const filter: Record<string, unknown> = {};
-            if (params.status) filter.status = params.status;
-            if (params.priority) filter.priority = params.priority;
-            if (params.clientId) filter.client = { accountId: params.clientId };
-            if (params.assigneeId) filter.assignee = { id: params.assigneeId };
-            if (params.unassigned) filter.assignee = null;
+            const filter = buildTicketFilter(params);
+            const query = params.fields
+              ? listTicketsQuery(selectFields(params.fields, TICKET_FIELDS, "ticketId"))
+              : LIST_TICKETS_QUERY;
 
-            const response = await client.query<ListTicketsResponse>(LIST_TICKETS_QUERY, {
-              input: {
-                first: Math.min(params.max ?? 50, 500),
-                ...(params.cursor && { after: params.cursor }),
-                ...(Object.keys(filter).length > 0 && { filter }),
-                orderBy: { field: "createdTime", direction: "DESC" },
-              },
+            const list = await fetchList<Ticket>(params, 50, async (page) => {
+              const response = await client.query<ListTicketsResponse>(query, {
+                input: {
+                  ...page,
+                  ...(Object.keys(filter).length > 0 && { filter }),
+                  orderBy: buildTicketOrder(params),
+                },
+              });
+              return {
+                items: response.getTicketList.tickets,
+                listInfo: response.getTicketList.listInfo,
+              };
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getTicketList, null, 2),
-                },
-              ],
-            };
+            return listResult("tickets", list, params.format);
           }
 
           case "superops_tickets_get": {
-            const { ticketId } = args as { ticketId: string };
+            const { ticketId, fields } = args as { ticketId: string; fields?: string[] };
+            const query = fields
+              ? getTicketQuery(selectFields(fields, TICKET_FIELDS, "ticketId"))
+              : GET_TICKET_QUERY;
 
-            const response = await client.query<GetTicketResponse>(GET_TICKET_QUERY, {
+            const response = await client.query<GetTicketResponse>(query, {
               input: { ticketId },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.getTicket, null, 2),
-                },
-              ],
-            };
+            if (!response.getTicket) {
+              throw new SuperOpsError(`Ticket not found: ${ticketId}`, { kind: "not_found" });
+            }
+
+            return jsonResult(response.getTicket);
+          }
+
+          case "superops_tickets_search": {
+            const params = args as TicketFilterArgs &
+              TicketOrderArgs & {
+                max?: number;
+                cursor?: string;
+                all?: boolean;
+                maxTotal?: number;
+                format?: OutputFormat;
+                fields?: string[];
+              };
+
+            const filter = buildTicketFilter(params);
+            if (Object.keys(filter).length === 0) {
+              throw new SuperOpsError(
+                "Provide a search query or at least one filter, or use superops_tickets_list to list all tickets.",
+                { kind: "validation" }
+              );
+            }
+
+            const query = params.fields
+              ? listTicketsQuery(selectFields(params.fields, TICKET_FIELDS, "ticketId"))
+              : LIST_TICKETS_QUERY;
+
+            const list = await fetchList<Ticket>(params, 50, async (page) => {
+              const response = await client.query<ListTicketsResponse>(query, {
+                input: { ...page, filter, orderBy: buildTicketOrder(params) },
+              });
+              return {
+                items: response.getTicketList.tickets,
+                listInfo: response.getTicketList.listInfo,
+              };
+            });
+
+            return listResult("tickets", list, params.format);
           }
 
           case "superops_tickets_create": {
@@ -458,29 +1669,70 @@ export function getTicketsTools(): DomainTools {
               categoryName?: string;
             };
 
-            const input: Record<string, unknown> = {
-              subject: params.subject,
-              client: { accountId: params.clientId },
+            const response = await client.mutate<CreateTicketResponse>(
+              CREATE_TICKET_MUTATION,
+              { input: createTicketInput(params) }
+            );
+
+            return jsonResult(response.createTicket);
+          }
+
+          case "superops_tickets_list_templates": {
+            const templates = await loadTemplates();
+
+            return jsonResult({
+              tickets: templates.tickets.map((template) => ({
+                name: template.name,
+                summary: template.summary,
+                subject: template.subject,
+                priority: template.priority,
+                category: template.category,
+                techGroup: template.techGroup,
+                placeholders: placeholdersOf(template.subject, template.description),
+              })),
+              replies: templates.replies.map((template) => ({
+                name: template.name,
+                summary: template.summary,
+                messageFormat: template.messageFormat ?? "text",
+                status: template.status,
+                placeholders: placeholdersOf(template.message),
+              })),
+            });
+          }
+
+          case "superops_tickets_create_from_template": {
+            const params = args as {
+              template: string;
+              clientId: string;
+              variables?: Record<string, unknown>;
+              requesterEmail?: string;
+              priority?: string;
+              techGroupName?: string;
+              categoryName?: string;
             };
-            if (params.description) input.description = params.description;
-            if (params.priority) input.priority = params.priority.toUpperCase();
-            if (params.requesterEmail) input.requester = { email: params.requesterEmail };
-            if (params.techGroupName) input.techGroup = { name: params.techGroupName };
-            if (params.categoryName) input.category = { name: params.categoryName };
+
+            const templates = await loadTemplates();
+            const template = renderTicketTemplate(
+              findTemplate(templates.tickets, params.template, "Ticket template"),
+              params.variables
+            );
 
             const response = await client.mutate<CreateTicketResponse>(
               CREATE_TICKET_MUTATION,
-              { input }
+              {
+                input: createTicketInput({
+                  subject: template.subject,
+                  description: template.description,
+                  clientId: params.clientId,
+                  requesterEmail: params.requesterEmail,
+                  priority: params.priority ?? template.priority,
+                  techGroupName: params.techGroupName ?? template.techGroup,
+                  categoryName: params.categoryName ?? template.category,
+                }),
+              }
             );
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.createTicket, null, 2),
-                },
-              ],
-            };
+            return jsonResult(response.createTicket);
           }
 
           case "superops_tickets_update": {
@@ -493,26 +1745,113 @@ export function getTicketsTools(): DomainTools {
               resolution?: string;
             };
 
-            const input: Record<string, unknown> = { ticketId: params.ticketId };
-            if (params.status) input.status = params.status;
-            if (params.priority) input.priority = params.priority.toUpperCase();
-            if (params.assigneeId) input.assignee = { id: params.assigneeId };
-            if (params.techGroupName) input.techGroup = { name: params.techGroupName };
-            if (params.resolution) input.resolution = params.resolution;
-
+            // Setting fields to fixed values is safe to retry
             const response = await client.mutate<UpdateTicketResponse>(
               UPDATE_TICKET_MUTATION,
-              { input }
+              { input: updateTicketInput(params.ticketId, params) },
+              { idempotent: true }
             );
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.updateTicket, null, 2),
-                },
-              ],
+            return jsonResult(response.updateTicket);
+          }
+
+          case "superops_tickets_merge": {
+            const params = args as {
+              parentTicketId: string;
+              childTicketIds: string[];
+              moveNotes?: boolean;
+              moveTimeEntries?: boolean;
+            };
+
+            const childTicketIds = [...new Set(params.childTicketIds)];
+            if (childTicketIds.includes(params.parentTicketId)) {
+              throw new SuperOpsError("A ticket cannot be merged into itself.", {
+                kind: "validation",
+                field: "childTicketIds",
+              });
+            }
+
+            const response = await client.mutate<MergeTicketsResponse>(MERGE_TICKETS_MUTATION, {
+              input: {
+                parentTicketId: params.parentTicketId,
+                childTicketIds,
+                moveNotes: params.moveNotes ?? true,
+                moveTimeEntries: params.moveTimeEntries ?? true,
+              },
+            });
+
+            return jsonResult(response.mergeTickets);
+          }
+
+          case "superops_tickets_split": {
+            const params = args as {
+              ticketId: string;
+              subject: string;
+              description?: string;
+              noteIds?: string[];
+              timeEntryIds?: string[];
+            };
+
+            const noteIds = [...new Set(params.noteIds ?? [])];
+            const timeEntryIds = [...new Set(params.timeEntryIds ?? [])];
+            if (noteIds.length === 0 && timeEntryIds.length === 0) {
+              throw new SuperOpsError("Select at least one note or time entry to split out.", {
+                kind: "validation",
+                field: "noteIds",
+              });
+            }
+
+            const response = await client.mutate<SplitTicketResponse>(SPLIT_TICKET_MUTATION, {
+              input: {
+                ticketId: params.ticketId,
+                subject: params.subject,
+                ...(params.description !== undefined && { description: params.description }),
+                noteIds,
+                timeEntryIds,
+              },
+            });
+
+            return jsonResult(response.splitTicket);
+          }
+
+          case "superops_tickets_link": {
+            const params = args as {
+              ticketId: string;
+              linkedTicketIds: string[];
+              linkType?: string;
+              unlink?: boolean;
             };
+
+            const linkedTicketIds = [...new Set(params.linkedTicketIds)];
+            if (linkedTicketIds.includes(params.ticketId)) {
+              throw new SuperOpsError("A ticket cannot be linked to itself.", {
+                kind: "validation",
+                field: "linkedTicketIds",
+              });
+            }
+
+            // Adding or removing the same links again changes nothing, so both are safe to retry
+            if (params.unlink) {
+              const response = await client.mutate<UnlinkTicketsResponse>(
+                UNLINK_TICKETS_MUTATION,
+                { input: { ticketId: params.ticketId, linkedTicketIds } },
+                { idempotent: true }
+              );
+              return jsonResult(response.unlinkTickets);
+            }
+
+            const response = await client.mutate<LinkTicketsResponse>(
+              LINK_TICKETS_MUTATION,
+              {
+                input: {
+                  ticketId: params.ticketId,
+                  linkedTicketIds,
+                  linkType: (params.linkType ?? "related").toUpperCase(),
+                },
+              },
+              { idempotent: true }
+            );
+            return jsonResult(response.linkTickets);
           }
 
           case "superops_tickets_add_note": {
@@ -530,14 +1869,67 @@ export function getTicketsTools(): DomainTools {
               },
             });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.addTicketNote, null, 2),
-                },
-              ],
+            return jsonResult(response.addTicketNote);
+          }
+
+          case "superops_tickets_reply": {
+            const params = args as {
+              ticketId: string;
+              message?: string;
+              messageFormat?: MessageFormat;
+              template?: string;
+              variables?: Record<string, unknown>;
+              cc?: string[];
+              status?: string;
+            };
+
+            if ((params.message == null) === (params.template == null)) {
+              throw new SuperOpsError("Provide either message or template, but not both.", {
+                kind: "validation",
+              });
+            }
+            let message = params.message ?? "";
+            let messageFormat = params.messageFormat;
+            let status = params.status;
+            if (params.template != null) {
+              const templates = await loadTemplates();
+              const reply = renderReplyTemplate(
+                findTemplate(templates.replies, params.template, "Canned reply"),
+                params.variables
+              );
+              message = reply.message;
+              messageFormat = reply.messageFormat;
+              status = params.status ?? reply.status;
+            }
+
+            if (message.trim() === "") {
+              throw new SuperOpsError("The reply message is empty.", {
+                kind: "validation",
+                field: "message",
+              });
+            }
+            const cc = [...new Set(params.cc?.map((address) => address.trim()))];
+            const invalid = cc.find((address) => !EMAIL_PATTERN.test(address));
+            if (invalid !== undefined) {
+              throw new SuperOpsError(`Not a valid email address: ${JSON.stringify(invalid)}`, {
+                kind: "validation",
+                field: "cc",
+              });
+            }
+
+            const input: Record<string, unknown> = {
+              ticketId: params.ticketId,
+              content: messageToHtml(message, messageFormat),
             };
+            if (cc.length > 0) input.cc = cc;
+            if (status) input.status = status;
+
+            // Not retried: a repeat would send the requester a second email
+            const response = await client.mutate<AddReplyResponse>(ADD_TICKET_REPLY_MUTATION, {
+              input,
+            });
+
+            return jsonResult(response.addTicketReply);
           }
 
           case "superops_tickets_log_time": {
@@ -562,13 +1954,396 @@ export function getTicketsTools(): DomainTools {
               }
             );
 
+            return jsonResult(response.addTicketTimeEntry);
+          }
+
+          case "superops_tickets_list_time": {
+            const params = args as {
+              ticketId?: string;
+              technicianId?: string;
+              loggedAfter?: string;
+              loggedBefore?: string;
+              billable?: boolean;
+              max?: number;
+              cursor?: string;
+              all?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
+            };
+
+            const filter: Record<string, unknown> = {};
+            if (params.ticketId) filter.ticketId = params.ticketId;
+            if (params.technicianId) filter.technician = { id: params.technicianId };
+            if (params.billable != null) filter.billable = params.billable;
+            const logged: Record<string, string> = {};
+            if (params.loggedAfter) logged.after = parseDate(params.loggedAfter, "loggedAfter");
+            if (params.loggedBefore) logged.before = parseDate(params.loggedBefore, "loggedBefore");
+            if (Object.keys(logged).length > 0) filter.createdTime = logged;
+
+            const list = await fetchList<TimeEntry>(params, 50, async (page) => {
+              const response = await client.query<ListTimeEntriesResponse>(
+                LIST_TIME_ENTRIES_QUERY,
+                {
+                  input: {
+                    ...page,
+                    ...(Object.keys(filter).length > 0 && { filter }),
+                    orderBy: { field: "createdTime", direction: "DESC" },
+                  },
+                }
+              );
+              return {
+                items: response.getTimeEntryList.timeEntries,
+                listInfo: response.getTimeEntryList.listInfo,
+              };
+            });
+
+            return listResult("timeEntries", list, params.format);
+          }
+
+          case "superops_tickets_update_time": {
+            const params = args as {
+              timeEntryId: string;
+              duration?: number;
+              description?: string;
+              workType?: string;
+              billable?: boolean;
+            };
+
+            const input: Record<string, unknown> = { timeEntryId: params.timeEntryId };
+            if (params.duration != null) input.duration = params.duration;
+            if (params.description != null) input.description = params.description;
+            if (params.workType != null) input.workType = params.workType;
+            if (params.billable != null) input.billable = params.billable;
+            if (Object.keys(input).length === 1) {
+              throw new SuperOpsError(
+                "Provide at least one change: duration, description, workType or billable.",
+                { kind: "validation" }
+              );
+            }
+
+            // Setting fields to fixed values is safe to retry
+            const response = await client.mutate<UpdateTimeEntryResponse>(
+              UPDATE_TIME_ENTRY_MUTATION,
+              { input },
+              { idempotent: true }
+            );
+
+            if (!response.updateTicketTimeEntry) {
+              throw new SuperOpsError(`Time entry not found: ${params.timeEntryId}`, {
+                kind: "not_found",
+              });
+            }
+
+            return jsonResult(response.updateTicketTimeEntry);
+          }
+
+          case "superops_tickets_delete_time": {
+            const { timeEntryId } = args as { timeEntryId: string };
+
+            const response = await client.mutate<DeleteTimeEntryResponse>(
+              DELETE_TIME_ENTRY_MUTATION,
+              { input: { timeEntryId } }
+            );
+
+            if (!response.deleteTicketTimeEntry) {
+              throw new SuperOpsError(`Time entry not found: ${timeEntryId}`, {
+                kind: "not_found",
+              });
+            }
+
+            return jsonResult({ timeEntryId, deleted: true });
+          }
+
+          case "superops_tickets_get_conversation": {
+            const params = args as {
+              ticketId: string;
+              types?: string[];
+              max?: number;
+              cursor?: string;
+              all?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
+            };
+
+            const list = await fetchList<ConversationEntry>(params, 50, async (page) => {
+              const response = await client.query<TicketConversationResponse>(
+                GET_TICKET_CONVERSATION_QUERY,
+                {
+                  input: {
+                    ticketId: params.ticketId,
+                    ...page,
+                    ...(params.types && { filter: { type: params.types } }),
+                    // Oldest first, so the thread reads in order
+                    orderBy: { field: "createdTime", direction: "ASC" },
+                  },
+                }
+              );
+              if (!response.getTicketConversationList) {
+                throw new SuperOpsError(`Ticket not found: ${params.ticketId}`, {
+                  kind: "not_found",
+                });
+              }
+              return {
+                items: response.getTicketConversationList.entries,
+                listInfo: response.getTicketConversationList.listInfo,
+              };
+            });
+
+            return listResult("entries", list, params.format);
+          }
+
+          case "superops_tickets_list_attachments": {
+            const { ticketId } = args as { ticketId: string };
+
+            const response = await client.query<ListTicketAttachmentsResponse>(
+              LIST_TICKET_ATTACHMENTS_QUERY,
+              { input: { ticketId } }
+            );
+
+            if (!response.getTicketAttachmentList) {
+              throw new SuperOpsError(`Ticket not found: ${ticketId}`, { kind: "not_found" });
+            }
+
+            return jsonResult({ attachments: response.getTicketAttachmentList });
+          }
+
+          case "superops_tickets_get_attachment": {
+            const { ticketId, attachmentId } = args as { ticketId: string; attachmentId: string };
+            const notFound = new SuperOpsError(
+              `Attachment not found: ${attachmentId} on ticket ${ticketId}`,
+              { kind: "not_found" }
+            );
+
+            const response = await client.query<GetTicketAttachmentResponse>(
+              GET_TICKET_ATTACHMENT_QUERY,
+              { input: { ticketId, attachmentId } }
+            );
+            const attachment = response.getTicketAttachment;
+            if (!attachment) {
+              throw notFound;
+            }
+            if (typeof attachment.fileSize === "number") {
+              assertWithinLimit(attachment.fileSize, attachment.fileName);
+            }
+
+            const download = await client.query<GetTicketAttachmentContentResponse>(
+              GET_TICKET_ATTACHMENT_CONTENT_QUERY,
+              { input: { ticketId, attachmentId } }
+            );
+            if (!download.getTicketAttachment) {
+              throw notFound;
+            }
+            // The reported size may be missing or stale, so check what arrived too
+            const encoded = download.getTicketAttachment.content;
+            assertWithinLimit(base64Size(encoded), attachment.fileName);
+
+            return {
+              content: [
+                { type: "text", text: JSON.stringify(attachment, null, 2) },
+                attachmentContent(ticketId, attachment, encoded),
+              ],
+              structuredContent: { ...attachment },
+            };
+          }
+
+          case "superops_tickets_upload_attachment": {
+            const params = args as {
+              ticketId: string;
+              fileName?: string;
+              contentType?: string;
+              content?: string;
+              resource?: EmbeddedResource;
+            };
+
+            const file = uploadFile(params);
+            assertWithinLimit(
+              base64Size(file.content),
+              file.fileName,
+              params.content ? "content" : "resource"
+            );
+
+            const response = await client.mutate<UploadTicketAttachmentResponse>(
+              UPLOAD_TICKET_ATTACHMENT_MUTATION,
+              { input: { ticketId: params.ticketId, ...file } }
+            );
+
+            return jsonResult(response.uploadTicketAttachment);
+          }
+
+          case "superops_tickets_sla_report": {
+            const params = args as {
+              clientId?: string;
+              assigneeId?: string;
+              techGroupName?: string;
+              priority?: string[];
+              includeOk?: boolean;
+              maxTotal?: number;
+              format?: OutputFormat;
+            };
+
+            const filter = { ...buildTicketFilter(params), status: OPEN_STATUSES };
+            const query = listTicketsQuery(
+              selectFields(SLA_REPORT_FIELDS, TICKET_FIELDS, "ticketId")
+            );
+
+            const list = await fetchList<Ticket>(
+              { all: true, maxTotal: params.maxTotal },
+              50,
+              async (page) => {
+                const response = await client.query<ListTicketsResponse>(query, {
+                  input: { ...page, filter, orderBy: buildTicketOrder({}) },
+                });
+                return {
+                  items: response.getTicketList.tickets,
+                  listInfo: response.getTicketList.listInfo,
+                };
+              }
+            );
+
+            const report = buildSlaReport(list.items, new Date(), params.includeOk);
+            let summary = summarizeSlaReport(report);
+            if (list.pagination?.truncated) {
+              summary += `\n\nOnly the first ${list.items.length} open tickets were checked. Narrow the filters or raise maxTotal to check the rest.`;
+            }
+
+            const format = params.format ?? "json";
+            let rows: string;
+            if (format === "json") {
+              rows = JSON.stringify(report.tickets);
+            } else if (report.tickets.length > 0) {
+              rows = formatRows(report.tickets, format);
+            } else {
+              rows = "No tickets breached or at risk.";
+            }
+
             return {
               content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(response.addTicketTimeEntry, null, 2),
-                },
+                { type: "text", text: summary },
+                { type: "text", text: rows },
               ],
+              structuredContent: { ...report, pagination: list.pagination },
+            };
+          }
+
+          case "superops_tickets_bulk_update": {
+            const params = args as {
+              ticketIds?: string[];
+              filter?: TicketFilterArgs;
+              maxTickets?: number;
+              status?: string;
+              priority?: string;
+              assigneeId?: string;
+              techGroupName?: string;
+              dryRun?: boolean;
+            };
+            const dryRun = params.dryRun ?? false;
+
+            const changes: TicketChanges = {
+              ...(params.status && { status: params.status }),
+              ...(params.priority && { priority: params.priority }),
+              ...(params.assigneeId && { assigneeId: params.assigneeId }),
+              ...(params.techGroupName && { techGroupName: params.techGroupName }),
+            };
+            if (Object.keys(changes).length === 0) {
+              throw new SuperOpsError(
+                "Provide at least one change: status, priority, assigneeId or techGroupName.",
+                { kind: "validation" }
+              );
+            }
+            if (Boolean(params.ticketIds) === Boolean(params.filter)) {
+              throw new SuperOpsError("Provide either ticketIds or filter, but not both.", {
+                kind: "validation",
+              });
+            }
+
+            // Tickets matched by the filter, already holding the preview fields
+            let matched: Ticket[] | undefined;
+            let ticketIds: string[];
+            if (params.filter) {
+              const filter = buildTicketFilter(params.filter);
+              if (Object.keys(filter).length === 0) {
+                throw new SuperOpsError(
+                  "The filter must set at least one condition. Pass ticketIds to update specific tickets.",
+                  { kind: "validation", field: "filter" }
+                );
+              }
+
+              const limit = params.maxTickets ?? 100;
+              const query = listTicketsQuery(
+                selectFields(BULK_PREVIEW_FIELDS, TICKET_FIELDS, "ticketId")
+              );
+              const list = await fetchList<Ticket>({ maxTotal: limit }, 50, async (page) => {
+                const response = await client.query<ListTicketsResponse>(query, {
+                  input: { ...page, filter, orderBy: buildTicketOrder({}) },
+                });
+                return {
+                  items: response.getTicketList.tickets,
+                  listInfo: response.getTicketList.listInfo,
+                };
+              });
+              if (list.pagination?.truncated) {
+                throw new SuperOpsError(
+                  `The filter matches more than ${limit} tickets. Narrow the filter, or raise maxTickets (max: ${MAX_BULK_TICKETS}).`,
+                  { kind: "validation", field: "maxTickets" }
+                );
+              }
+
+              matched = list.items;
+              ticketIds = matched.map((ticket) => ticket.ticketId);
+            } else {
+              ticketIds = [...new Set(params.ticketIds)];
+            }
+
+            let results: BulkTicketResult[];
+            if (dryRun && matched) {
+              results = matched.map((ticket) => ({
+                ticketId: ticket.ticketId,
+                success: true,
+                ticket,
+              }));
+            } else if (dryRun) {
+              const query = getTicketQuery(
+                selectFields(BULK_PREVIEW_FIELDS, TICKET_FIELDS, "ticketId")
+              );
+              results = await mapWithConcurrency(ticketIds, BULK_CONCURRENCY, (ticketId) =>
+                settleTicket(ticketId, async () => {
+                  const response = await client.query<GetTicketResponse>(query, {
+                    input: { ticketId },
+                  });
+                  if (!response.getTicket) {
+                    throw new SuperOpsError(`Ticket not found: ${ticketId}`, {
+                      kind: "not_found",
+                    });
+                  }
+                  return response.getTicket;
+                })
+              );
+            } else {
+              results = await mapWithConcurrency(ticketIds, BULK_CONCURRENCY, (ticketId) =>
+                settleTicket(ticketId, async () => {
+                  const response = await client.mutate<UpdateTicketResponse>(
+                    UPDATE_TICKET_MUTATION,
+                    { input: updateTicketInput(ticketId, changes) },
+                    { idempotent: true }
+                  );
+                  return response.updateTicket;
+                })
+              );
+            }
+
+            const succeeded = results.filter((result) => result.success).length;
+            const report: BulkUpdateReport = {
+              dryRun,
+              changes: { ...changes },
+              total: results.length,
+              succeeded,
+              failed: results.length - succeeded,
+              results,
+            };
+
+            return {
+              content: [{ type: "text", text: summarizeBulkUpdate(report) }],
+              structuredContent: { ...report },
             };
           }
 
@@ -579,11 +2354,7 @@ export function getTicketsTools(): DomainTools {
             };
         }
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${message}` }],
-          isError: true,
-        };
+        return errorResult(error, this.tools.find((tool) => tool.name === name));
       }
     },
   };
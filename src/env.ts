@@ -0,0 +1,16 @@
+/**
+ * Environment Variable Helpers
+ */
+
+/**
+ * Read a numeric environment variable, falling back when it is unset,
+ * not a number, or below the minimum.
+ */
+export function readEnvNumber(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
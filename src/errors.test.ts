@@ -0,0 +1,129 @@
+/**
+ * Error Taxonomy Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SuperOpsError, errorResult } from "./errors.js";
+import type { ToolDefinition } from "./types.js";
+
+const updateTool: ToolDefinition = {
+  name: "superops_tickets_update",
+  description: "Update a ticket",
+  inputSchema: {
+    type: "object",
+    properties: {
+      priority: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
+      status: { type: "array", items: { type: "string", enum: ["Open", "Closed"] } },
+    },
+  },
+};
+
+describe("SuperOpsError classification", () => {
+  it.each([
+    [{ status: 401 }, "auth"],
+    [{ code: "UNAUTHENTICATED" }, "auth"],
+    [{ status: 404 }, "not_found"],
+    [{ code: "NOT_FOUND" }, "not_found"],
+    [{ code: "BAD_USER_INPUT" }, "validation"],
+    [{ status: 400 }, "validation"],
+    [{ field: "priority" }, "validation"],
+    [{ status: 429 }, "rate_limited"],
+    [{ retryAfter: 5 }, "rate_limited"],
+    [{ code: "NETWORK_ERROR" }, "network"],
+    [{ code: "TIMEOUT" }, "timeout"],
+    [{ code: "CANCELLED" }, "cancelled"],
+    [{ status: 500 }, "upstream"],
+    [{ code: "INTERNAL_SERVER_ERROR" }, "upstream"],
+  ] as const)("classifies %o as %s", (details, kind) => {
+    expect(new SuperOpsError("Failed", details).kind).toBe(kind);
+  });
+
+  it("lets an explicit kind override classification", () => {
+    expect(new SuperOpsError("Failed", { status: 500, kind: "not_found" }).kind).toBe(
+      "not_found"
+    );
+  });
+
+  it("reads the offending field from GraphQL validation messages", () => {
+    const error = new SuperOpsError(
+      'Variable "$input" got invalid value "Urgent" at "input.priority"',
+      { code: "BAD_USER_INPUT" }
+    );
+
+    expect(error.field).toBe("input.priority");
+    expect(error.kind).toBe("validation");
+  });
+});
+
+describe("errorResult", () => {
+  it("keeps the plain format for other errors", () => {
+    expect(errorResult(new Error("Boom"))).toEqual({
+      content: [{ type: "text", text: "Error: Boom" }],
+      isError: true,
+    });
+    expect(errorResult("String error").content[0].text).toBe("Error: String error");
+  });
+
+  it("labels SuperOps errors with their kind", () => {
+    const result = errorResult(new SuperOpsError("Ticket not found", { code: "NOT_FOUND" }));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      "Error (not_found): Ticket not found\nCheck the ID, or use a list or search tool to find a valid one."
+    );
+  });
+
+  it("lists allowed values for an invalid enum field", () => {
+    const error = new SuperOpsError("Invalid priority", { field: "input.priority" });
+
+    expect(errorResult(error, updateTool).content[0].text).toBe(
+      "Error (validation): Invalid priority\nField `input.priority` is invalid. Allowed values are: Low, Medium, High, Critical."
+    );
+  });
+
+  it("lists allowed values for array items", () => {
+    const error = new SuperOpsError("Invalid status", { field: "status[0]" });
+
+    expect(errorResult(error, updateTool).content[0].text).toContain(
+      "Allowed values are: Open, Closed."
+    );
+  });
+
+  it("names the field when the tool has no allowed values for it", () => {
+    const error = new SuperOpsError("Invalid subject", { field: "subject" });
+
+    expect(errorResult(error, updateTool).content[0].text).toContain(
+      "Field `subject` is invalid."
+    );
+  });
+
+  it("lists the remaining GraphQL errors", () => {
+    const error = new SuperOpsError("Sites unavailable", {
+      errors: [
+        { message: "Sites unavailable", path: ["getClient", "sites"] },
+        { message: "Contacts unavailable", path: ["getClient", "contacts", 0] },
+        { message: "Service degraded" },
+      ],
+    });
+
+    expect(errorResult(error).content[0].text).toBe(
+      "Error (upstream): Sites unavailable\n\nOther errors:\n" +
+        "- Contacts unavailable (at getClient.contacts.0)\n" +
+        "- Service degraded"
+    );
+  });
+
+  it("includes the retry time for rate limits", () => {
+    const error = new SuperOpsError("Too many requests", { status: 429, retryAfter: 2.5 });
+
+    expect(errorResult(error).content[0].text).toContain("Retry after 3 seconds.");
+  });
+
+  it("includes the HTTP status for upstream failures", () => {
+    const error = new SuperOpsError("HTTP error: 500 Internal Server Error", { status: 500 });
+
+    expect(errorResult(error).content[0].text).toContain(
+      "The SuperOps API failed with HTTP 500."
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * SuperOps.ai Error Taxonomy
+ *
+ * Classifies API failures into a fixed set of kinds and turns them into
+ * tool results that tell the model what went wrong and how to recover.
+ */
+
+import type { GraphQLError, ToolDefinition } from "./types.js";
+
+export type ErrorKind =
+  | "auth"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "upstream";
+
+export interface SuperOpsErrorDetails {
+  // Overrides classification from the code and status
+  kind?: ErrorKind;
+  // GraphQL extensions.code, or an internal code such as NETWORK_ERROR
+  code?: string;
+  // Seconds to wait before retrying
+  retryAfter?: number;
+  // HTTP status of the response
+  status?: number;
+  // GraphQL path of the failing field
+  path?: (string | number)[];
+  // Input field the API rejected
+  field?: string;
+  // Every error in the GraphQL response, the first of which this error describes
+  errors?: GraphQLError[];
+}
+
+export interface ErrorResult {
+  content: { type: "text"; text: string }[];
+  isError: true;
+}
+
+const AUTH_CODES = new Set([
+  "UNAUTHENTICATED",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "AUTHENTICATION_ERROR",
+  "PERMISSION_DENIED",
+]);
+const NOT_FOUND_CODES = new Set(["NOT_FOUND", "RESOURCE_NOT_FOUND"]);
+const VALIDATION_CODES = new Set([
+  "BAD_USER_INPUT",
+  "BAD_REQUEST",
+  "VALIDATION_ERROR",
+  "GRAPHQL_VALIDATION_FAILED",
+  "GRAPHQL_PARSE_FAILED",
+]);
+const RATE_LIMIT_CODES = new Set(["RATE_LIMITED", "TOO_MANY_REQUESTS"]);
+
+export class SuperOpsError extends Error {
+  readonly kind: ErrorKind;
+  readonly code?: string;
+  readonly retryAfter?: number;
+  readonly status?: number;
+  readonly path?: (string | number)[];
+  readonly field?: string;
+  readonly errors?: GraphQLError[];
+
+  constructor(message: string, details: SuperOpsErrorDetails = {}) {
+    super(message);
+    this.name = "SuperOpsError";
+    this.code = details.code;
+    this.retryAfter = details.retryAfter;
+    this.status = details.status;
+    this.path = details.path;
+    this.errors = details.errors;
+    this.field = details.field ?? fieldFromMessage(message);
+    this.kind = details.kind ?? classify({ ...details, field: this.field });
+  }
+}
+
+function classify({ code, status, retryAfter, field }: SuperOpsErrorDetails): ErrorKind {
+  switch (code) {
+    case "CANCELLED":
+      return "cancelled";
+    case "TIMEOUT":
+      return "timeout";
+    case "NETWORK_ERROR":
+      return "network";
+  }
+
+  if (status === 401 || status === 403 || (code && AUTH_CODES.has(code))) {
+    return "auth";
+  }
+  if (status === 404 || (code && NOT_FOUND_CODES.has(code))) {
+    return "not_found";
+  }
+  if (status === 429 || retryAfter !== undefined || (code && RATE_LIMIT_CODES.has(code))) {
+    return "rate_limited";
+  }
+  if (
+    status === 400 ||
+    status === 422 ||
+    field !== undefined ||
+    (code && VALIDATION_CODES.has(code))
+  ) {
+    return "validation";
+  }
+  return "upstream";
+}
+
+/**
+ * Pull the offending input field out of a GraphQL validation message, e.g.
+ * `Variable "$input" got invalid value "Urgent" at "input.priority"`.
+ */
+function fieldFromMessage(message: string): string | undefined {
+  return message.match(/ at "([\w.[\]]+)"/)?.[1];
+}
+
+/**
+ * Allowed values for an input field, read from the tool's input schema.
+ * Accepts a dotted path (e.g. "input.priority") and matches its last segment.
+ */
+function allowedValues(field: string, tool?: ToolDefinition): unknown[] | undefined {
+  const name = field.replace(/\[\d+\]/g, "").split(".").pop() as string;
+  const property = tool?.inputSchema.properties[name] as
+    | { enum?: unknown[]; items?: { enum?: unknown[] } }
+    | undefined;
+  return property?.enum ?? property?.items?.enum;
+}
+
+function describeGraphQLError(error: GraphQLError): string {
+  return error.path ? `${error.message} (at ${error.path.join(".")})` : error.message;
+}
+
+function hint(error: SuperOpsError, tool?: ToolDefinition): string | undefined {
+  switch (error.kind) {
+    case "auth":
+      return "Check that the SuperOps API token is valid and has access to this subdomain.";
+    case "not_found":
+      return "Check the ID, or use a list or search tool to find a valid one.";
+    case "validation": {
+      if (!error.field) {
+        return "Check the arguments against the tool's input schema.";
+      }
+      const values = allowedValues(error.field, tool);
+      return values
+        ? `Field \`${error.field}\` is invalid. Allowed values are: ${values.join(", ")}.`
+        : `Field \`${error.field}\` is invalid.`;
+    }
+    case "rate_limited":
+      return error.retryAfter !== undefined
+        ? `Retry after ${Math.ceil(error.retryAfter)} seconds.`
+        : "Wait a moment before retrying.";
+    case "network":
+      return "The SuperOps API could not be reached. Try again shortly.";
+    case "timeout":
+      return "Try again, or request fewer results.";
+    case "cancelled":
+      return undefined;
+    case "upstream":
+      return error.status !== undefined
+        ? `The SuperOps API failed with HTTP ${error.status}. Try again shortly.`
+        : undefined;
+  }
+}
+
+/**
+ * Convert a caught error into a tool result. SuperOps errors are labelled
+ * with their kind and a recovery hint; anything else keeps the plain
+ * "Error: <message>" form.
+ *
+ * @param tool the tool being called, used to list allowed values for an invalid field
+ */
+export function errorResult(error: unknown, tool?: ToolDefinition): ErrorResult {
+  if (!(error instanceof SuperOpsError)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{ type: "text", text: `Error: ${message}` }],
+      isError: true,
+    };
+  }
+
+  const advice = hint(error, tool);
+  let text = `Error (${error.kind}): ${error.message}${advice ? `\n${advice}` : ""}`;
+  const others = error.errors?.slice(1) ?? [];
+  if (others.length > 0) {
+    const lines = others.map((other) => `- ${describeGraphQLError(other)}`);
+    text += `\n\nOther errors:\n${lines.join("\n")}`;
+  }
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Response Field Projection Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SuperOpsError } from "./errors.js";
+import { TICKET_FIELDS, fieldsProperty, selectFields } from "./fields.js";
+
+describe("selectFields", () => {
+  it("selects the requested fields plus the ID", () => {
+    expect(selectFields(["subject", "status"], TICKET_FIELDS, "ticketId")).toBe(
+      "ticketId\nsubject\nstatus"
+    );
+  });
+
+  it("does not repeat the ID", () => {
+    expect(selectFields(["ticketId", "subject"], TICKET_FIELDS, "ticketId")).toBe(
+      "ticketId\nsubject"
+    );
+  });
+
+  it("selects a summary of nested objects", () => {
+    expect(selectFields(["client"], TICKET_FIELDS, "ticketId")).toBe(
+      "ticketId\nclient { accountId name }"
+    );
+  });
+
+  it("rejects fields outside the allowlist", () => {
+    const select = () => selectFields(["subject", "secret", "toString"], TICKET_FIELDS, "ticketId");
+
+    expect(select).toThrow(
+      expect.objectContaining({
+        message: "Unknown field(s): secret, toString",
+        kind: "validation",
+        field: "fields",
+      })
+    );
+    expect(() => selectFields(["secret"], TICKET_FIELDS, "ticketId")).toThrow(SuperOpsError);
+  });
+});
+
+describe("fieldsProperty", () => {
+  it("lists the allowlist as the item enum", () => {
+    const property = fieldsProperty(TICKET_FIELDS, "ticket");
+
+    expect(property.type).toBe("array");
+    expect(property.items.enum).toEqual(Object.keys(TICKET_FIELDS));
+    expect(property.description).toContain("ticket fields");
+  });
+});
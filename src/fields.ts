@@ -0,0 +1,127 @@
+/**
+ * Response Field Projection
+ *
+ * Per-entity allowlists mapping each field a caller may request to its
+ * GraphQL selection, so list and get tools can fetch only what is asked for.
+ */
+
+import { SuperOpsError } from "./errors.js";
+import type { Asset, Client, Ticket } from "./types.js";
+
+// Every field of an entity, mapped to its selection. Nested objects select a summary.
+export type FieldSelections<T> = Record<keyof T & string, string>;
+
+export const TICKET_FIELDS: FieldSelections<Ticket> = {
+  ticketId: "ticketId",
+  ticketNumber: "ticketNumber",
+  subject: "subject",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  impact: "impact",
+  urgency: "urgency",
+  ticketType: "ticketType",
+  requestType: "requestType",
+  source: "source",
+  client: "client { accountId name }",
+  site: "site { id name }",
+  requester: "requester { id name email }",
+  assignee: "assignee { id name email }",
+  techGroup: "techGroup { id name }",
+  category: "category { id name }",
+  customFields: "customFields { name value }",
+  resolution: "resolution",
+  firstResponseDueTime: "firstResponseDueTime",
+  firstResponseTime: "firstResponseTime",
+  firstResponseViolated: "firstResponseViolated",
+  resolutionDueTime: "resolutionDueTime",
+  resolutionTime: "resolutionTime",
+  resolutionViolated: "resolutionViolated",
+  linkedTickets: "linkedTickets { ticketId ticketNumber subject status linkType }",
+  createdTime: "createdTime",
+  lastUpdatedTime: "lastUpdatedTime",
+};
+
+export const ASSET_FIELDS: FieldSelections<Asset> = {
+  assetId: "assetId",
+  name: "name",
+  status: "status",
+  platform: "platform",
+  lastSeen: "lastSeen",
+  agentVersion: "agentVersion",
+  ipAddress: "ipAddress",
+  macAddress: "macAddress",
+  publicIp: "publicIp",
+  hostname: "hostname",
+  manufacturer: "manufacturer",
+  model: "model",
+  serialNumber: "serialNumber",
+  processorName: "processorName",
+  processorCores: "processorCores",
+  totalMemory: "totalMemory",
+  totalDiskSpace: "totalDiskSpace",
+  freeDiskSpace: "freeDiskSpace",
+  osName: "osName",
+  osVersion: "osVersion",
+  osBuild: "osBuild",
+  architecture: "architecture",
+  client: "client { accountId name }",
+  site: "site { id name }",
+  tags: "tags",
+  customFields: "customFields { name value }",
+  patchStatus: "patchStatus { pendingCount installedCount failedCount lastScanDate }",
+};
+
+export const CLIENT_FIELDS: FieldSelections<Client> = {
+  accountId: "accountId",
+  name: "name",
+  stage: "stage",
+  status: "status",
+  emailDomains: "emailDomains",
+  website: "website",
+  phone: "phone",
+  industry: "industry",
+  employeeCount: "employeeCount",
+  annualRevenue: "annualRevenue",
+  address: "address { street city state country postalCode }",
+  accountManager: "accountManager { id name email }",
+  primaryContact: "primaryContact { id name email }",
+  sites: "sites { id name isDefault }",
+  customFields: "customFields { name value }",
+  createdTime: "createdTime",
+  lastUpdatedTime: "lastUpdatedTime",
+};
+
+/**
+ * Input schema property for a tool's `fields` argument.
+ */
+export function fieldsProperty(allowlist: Record<string, string>, entity: string) {
+  return {
+    type: "array",
+    items: { type: "string", enum: Object.keys(allowlist) },
+    description: `Return only these ${entity} fields to keep the response small (the ID is always included). Omit for the default fields.`,
+  };
+}
+
+/**
+ * Build a GraphQL selection set for the requested fields, always including
+ * the entity's ID.
+ *
+ * @throws SuperOpsError (validation) naming any field not in the allowlist
+ */
+export function selectFields<T>(
+  fields: string[],
+  allowlist: FieldSelections<T>,
+  idField: keyof T & string
+): string {
+  const selections: Record<string, string> = allowlist;
+  const unknown = fields.filter((field) => !Object.hasOwn(selections, field));
+  if (unknown.length > 0) {
+    throw new SuperOpsError(`Unknown field(s): ${unknown.join(", ")}`, {
+      kind: "validation",
+      field: "fields",
+    });
+  }
+
+  return [...new Set([idField, ...fields])].map((field) => selections[field]).join("\n");
+}
@@ -0,0 +1,109 @@
+/**
+ * List Output Formatting Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { flatten, formatRows, listResult } from "./format.js";
+
+const tickets = [
+  {
+    ticketId: "1",
+    subject: "Printer offline",
+    client: { accountId: "a1", name: "Acme" },
+    assignee: { id: "t1", name: "Sam" },
+  },
+  {
+    ticketId: "2",
+    subject: 'Say "hi", please',
+    client: { accountId: "a2", name: "Globex | EU" },
+    assignee: null,
+  },
+];
+
+const listInfo = { totalCount: 10, hasNextPage: true, endCursor: "c2" };
+
+describe("flatten", () => {
+  it("flattens nested objects into dotted columns", () => {
+    expect(flatten(tickets[0])).toEqual({
+      ticketId: "1",
+      subject: "Printer offline",
+      "client.accountId": "a1",
+      "client.name": "Acme",
+      "assignee.id": "t1",
+      "assignee.name": "Sam",
+    });
+  });
+
+  it("joins arrays and leaves out missing values", () => {
+    expect(
+      flatten({ tags: ["vip", "server"], customFields: [{ name: "a", value: "1" }], site: null })
+    ).toEqual({
+      tags: "vip; server",
+      customFields: '{"name":"a","value":"1"}',
+    });
+  });
+});
+
+describe("formatRows", () => {
+  it("renders an aligned text table", () => {
+    expect(formatRows([{ id: "1", name: "Acme" }, { id: "22", name: "Globex" }], "table")).toBe(
+      ["id  name", "--  ------", "1   Acme", "22  Globex"].join("\n")
+    );
+  });
+
+  it("renders CSV with quoting", () => {
+    expect(formatRows(tickets, "csv").split("\n")).toEqual([
+      "ticketId,subject,client.accountId,client.name,assignee.id,assignee.name",
+      "1,Printer offline,a1,Acme,t1,Sam",
+      '2,"Say ""hi"", please",a2,Globex | EU,,',
+    ]);
+  });
+
+  it("renders a Markdown table with escaped pipes", () => {
+    const lines = formatRows(tickets, "markdown").split("\n");
+
+    expect(lines[0]).toBe(
+      "| ticketId | subject | client.accountId | client.name | assignee.id | assignee.name |"
+    );
+    expect(lines[1]).toBe("| --- | --- | --- | --- | --- | --- |");
+    expect(lines[3]).toContain("| Globex \\| EU |");
+  });
+
+  it("shortens long cells in tables", () => {
+    const [, , row] = formatRows([{ description: "x".repeat(200) }], "table").split("\n");
+
+    expect(row).toHaveLength(60);
+    expect(row.endsWith("…")).toBe(true);
+  });
+});
+
+describe("listResult", () => {
+  it("returns compact JSON by default", () => {
+    const result = listResult("tickets", { items: tickets, listInfo });
+
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0].text).not.toContain("\n");
+    expect(JSON.parse(result.content[0].text)).toEqual({ tickets, listInfo });
+  });
+
+  it("adds counts and the next cursor after tabular output", () => {
+    const pagination = { pagesFetched: 1, itemsFetched: 2, truncated: true };
+    const result = listResult("tickets", { items: tickets, listInfo, pagination }, "table");
+
+    expect(result.content[0].text).toContain("client.name");
+    expect(result.content[1].text).toBe(
+      'Showing 2 of 10 tickets. Fetched 1 page(s). More results available: pass cursor "c2".'
+    );
+  });
+
+  it("reports an empty list", () => {
+    const result = listResult(
+      "assets",
+      { items: [], listInfo: { totalCount: 0, hasNextPage: false } },
+      "csv"
+    );
+
+    expect(result.content[0].text).toBe("No assets found.");
+    expect(result.content[1].text).toBe("Showing 0 of 0 assets.");
+  });
+});
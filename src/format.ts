@@ -0,0 +1,192 @@
+/**
+ * Tool Output Formatting
+ *
+ * Builds tool results carrying both text and structuredContent. List results
+ * render as compact JSON, or flatten each item into columns (e.g.
+ * `client.name`) for a text table, CSV or a Markdown table.
+ */
+
+import type { ListResult } from "./pagination.js";
+import type { ToolResult } from "./types.js";
+
+export type OutputFormat = "json" | "table" | "csv" | "markdown";
+
+// Longest cell in a text or Markdown table before it is cut short
+const MAX_CELL_LENGTH = 60;
+
+// Input schema property for list tools' format argument
+export const formatProperty = {
+  type: "string",
+  description:
+    "Output format: json (compact JSON), table (aligned text columns), csv, or markdown (default: json)",
+  enum: ["json", "table", "csv", "markdown"],
+  default: "json",
+};
+
+type Row = Record<string, string>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function cellValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (isPlainObject(item) ? JSON.stringify(item) : String(item)))
+      .join("; ");
+  }
+  return String(value);
+}
+
+/**
+ * Flatten nested objects into dotted keys, e.g. { client: { name } } becomes
+ * "client.name". Arrays become a single "; "-separated cell, and null values
+ * are left out so they render as blank cells.
+ */
+export function flatten(item: Record<string, unknown>, prefix = ""): Row {
+  const row: Row = {};
+  for (const [key, value] of Object.entries(item)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (isPlainObject(value)) {
+      Object.assign(row, flatten(value, column));
+    } else {
+      row[column] = cellValue(value);
+    }
+  }
+  return row;
+}
+
+// Columns in the order they first appear across all rows
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach((column) => columns.add(column));
+  }
+  return [...columns];
+}
+
+function truncate(text: string): string {
+  const line = text.replace(/\s+/g, " ");
+  return line.length > MAX_CELL_LENGTH ? `${line.slice(0, MAX_CELL_LENGTH - 1)}…` : line;
+}
+
+function toTable(rows: Row[], columns: string[]): string {
+  const cells = rows.map((row) => columns.map((column) => truncate(row[column] ?? "")));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((line) => line[i].length))
+  );
+  const render = (line: string[]) =>
+    line.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [
+    render(columns),
+    render(widths.map((width) => "-".repeat(width))),
+    ...cells.map(render),
+  ].join("\n");
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Row[], columns: string[]): string {
+  return [
+    columns.map(csvCell).join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column] ?? "")).join(",")),
+  ].join("\n");
+}
+
+function markdownCell(text: string): string {
+  return truncate(text).replace(/\|/g, "\\|");
+}
+
+function toMarkdown(rows: Row[], columns: string[]): string {
+  const render = (line: string[]) => `| ${line.join(" | ")} |`;
+  return [
+    render(columns.map(markdownCell)),
+    render(columns.map(() => "---")),
+    ...rows.map((row) => render(columns.map((column) => markdownCell(row[column] ?? "")))),
+  ].join("\n");
+}
+
+/**
+ * Render a list of items in a tabular format.
+ */
+export function formatRows(items: object[], format: Exclude<OutputFormat, "json">): string {
+  const rows = items.map((item) => flatten(item as Record<string, unknown>));
+  const columns = columnsOf(rows);
+
+  switch (format) {
+    case "table":
+      return toTable(rows, columns);
+    case "csv":
+      return toCsv(rows, columns);
+    case "markdown":
+      return toMarkdown(rows, columns);
+  }
+}
+
+// Counts and the cursor for the next page, shown after tabular output
+function listSummary<T>(key: string, list: ListResult<T>): string {
+  const { listInfo, pagination } = list;
+  const lines = [
+    listInfo?.totalCount !== undefined
+      ? `Showing ${list.items.length} of ${listInfo.totalCount} ${key}.`
+      : `Showing ${list.items.length} ${key}.`,
+  ];
+  if (pagination) {
+    lines.push(`Fetched ${pagination.pagesFetched} page(s).`);
+  }
+  if (listInfo?.hasNextPage && listInfo.endCursor) {
+    lines.push(`More results available: pass cursor "${listInfo.endCursor}".`);
+  }
+  return lines.join(" ");
+}
+
+/**
+ * Build a tool result with `data` as pretty-printed JSON text and as
+ * structuredContent.
+ */
+export function jsonResult(data: object): ToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * Build a list tool's result. The structured content holds the list under
+ * `key` with its listInfo and pagination summary. JSON text output is that
+ * same object, compacted; the tabular formats add a text summary with counts
+ * and the next cursor.
+ */
+export function listResult<T extends object>(
+  key: string,
+  list: ListResult<T>,
+  format: OutputFormat = "json"
+): ToolResult {
+  const structuredContent = {
+    [key]: list.items,
+    listInfo: list.listInfo,
+    ...(list.pagination && { pagination: list.pagination }),
+  };
+
+  if (format === "json") {
+    return {
+      content: [{ type: "text", text: JSON.stringify(structuredContent) }],
+      structuredContent,
+    };
+  }
+
+  const rows = list.items.length > 0 ? formatRows(list.items, format) : `No ${key} found.`;
+  return {
+    content: [
+      { type: "text", text: rows },
+      { type: "text", text: listSummary(key, list) },
+    ],
+    structuredContent,
+  };
+}
@@ -0,0 +1,412 @@
+/**
+ * HTTP Transport Tests
+ *
+ * Tests for the Streamable HTTP endpoint, legacy SSE endpoint and /health route.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from "vitest";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+
+import { getMaxBodyBytes, isAllowedOrigin, startHttpServer, type McpHttpServer } from "./http.js";
+
+interface HealthResponse {
+  status: string;
+  authMode: string;
+  credentialsConfigured: boolean | null;
+  lastApiSuccess: string | null;
+  sessions: number;
+}
+
+describe("HTTP transport", () => {
+  let server: McpHttpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    vi.stubEnv("SUPEROPS_API_TOKEN", "test-token");
+    vi.stubEnv("SUPEROPS_SUBDOMAIN", "testcompany");
+    server = await startHttpServer({ host: "127.0.0.1", port: 0 });
+    const { port } = server.httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.unstubAllEnvs();
+  });
+
+  describe("/health", () => {
+    it("reports credential presence and last API success", async () => {
+      const response = await fetch(`${baseUrl}/health`);
+      const body = (await response.json()) as HealthResponse;
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        status: "ok",
+        authMode: "env",
+        credentialsConfigured: true,
+        lastApiSuccess: null,
+        sessions: 0,
+      });
+    });
+
+    it("reports missing credentials", async () => {
+      vi.stubEnv("SUPEROPS_API_TOKEN", "");
+
+      const response = await fetch(`${baseUrl}/health`);
+      const body = (await response.json()) as HealthResponse;
+
+      expect(body.credentialsConfigured).toBe(false);
+    });
+  });
+
+  describe("/mcp", () => {
+    it("serves tools over Streamable HTTP", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toEqual([
+        "superops_test_connection",
+        "superops_navigate",
+      ]);
+
+      const health = (await (await fetch(`${baseUrl}/health`)).json()) as HealthResponse;
+      expect(health.sessions).toBe(1);
+
+      await client.close();
+    });
+
+    it("keeps navigation state separate per session", async () => {
+      const clientA = new Client({ name: "client-a", version: "1.0.0" });
+      const clientB = new Client({ name: "client-b", version: "1.0.0" });
+      await clientA.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+      await clientB.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+      const notifiedA = vi.fn();
+      const notifiedB = vi.fn();
+      clientA.setNotificationHandler(ToolListChangedNotificationSchema, notifiedA);
+      clientB.setNotificationHandler(ToolListChangedNotificationSchema, notifiedB);
+
+      await clientA.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+
+      const toolsA = await clientA.listTools();
+      const toolsB = await clientB.listTools();
+      expect(toolsA.tools.map((t) => t.name)).toContain("superops_tickets_list");
+      expect(toolsB.tools.map((t) => t.name)).toEqual([
+        "superops_test_connection",
+        "superops_navigate",
+      ]);
+      expect(notifiedA).toHaveBeenCalledTimes(1);
+      expect(notifiedB).not.toHaveBeenCalled();
+
+      await clientA.close();
+      await clientB.close();
+    });
+
+    it("rejects requests without a session that are not initialize requests", async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("returns 404 for unknown sessions", async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "mcp-session-id": "does-not-exist",
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("refuses requests from origins that are not allowed", async () => {
+      const post = (origin: string) =>
+        fetch(`${baseUrl}/mcp`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            Origin: origin,
+          },
+          body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+        });
+
+      expect((await post("https://attacker.example")).status).toBe(403);
+      expect((await post("null")).status).toBe(403);
+      // Past the origin check, on to the missing session
+      expect((await post("http://localhost:3000")).status).toBe(400);
+      expect((await post("http://127.0.0.1")).status).toBe(400);
+    });
+
+    it("allows the origins set in MCP_HTTP_ALLOWED_ORIGINS", async () => {
+      vi.stubEnv("MCP_HTTP_ALLOWED_ORIGINS", "https://app.example.com, https://other.example.com/");
+
+      expect(isAllowedOrigin("https://app.example.com")).toBe(true);
+      expect(isAllowedOrigin("https://other.example.com")).toBe(true);
+      expect(isAllowedOrigin("http://localhost:3000")).toBe(false);
+      const response = await fetch(`${baseUrl}/sse`, {
+        headers: { Origin: "https://attacker.example" },
+      });
+      expect(response.status).toBe(403);
+    });
+
+    it("closes sessions left idle without a DELETE", async () => {
+      vi.stubEnv("MCP_HTTP_SESSION_IDLE_MS", "50");
+      const idleServer = await startHttpServer({ host: "127.0.0.1", port: 0 });
+      const { port } = idleServer.httpServer.address() as AddressInfo;
+      const idleUrl = `http://127.0.0.1:${port}`;
+      const sessions = async () =>
+        ((await (await fetch(`${idleUrl}/health`)).json()) as HealthResponse).sessions;
+
+      const response = await fetch(`${idleUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "dropped-client", version: "1.0.0" },
+          },
+        }),
+      });
+      await response.text();
+      expect(response.headers.get("mcp-session-id")).toBeTruthy();
+
+      await vi.waitFor(async () => expect(await sessions()).toBe(0));
+
+      await idleServer.close();
+    });
+
+    it("sizes the body limit to fit the largest attachment upload", () => {
+      vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "3000000");
+
+      expect(getMaxBodyBytes()).toBe(4_000_000 + 1024 * 1024);
+    });
+
+    it("refuses a body declared larger than the limit", async () => {
+      vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "1");
+      const body = JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/list",
+        params: { pad: "a".repeat(getMaxBodyBytes()) },
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+
+      expect(response.status).toBe(413);
+    });
+
+    it("refuses a streamed body once it passes the limit", async () => {
+      vi.stubEnv("SUPEROPS_MAX_ATTACHMENT_BYTES", "1");
+      const chunk = new TextEncoder().encode("a".repeat(64 * 1024));
+      let sent = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          // Far more than the limit, so the server must stop reading early
+          if (sent > getMaxBodyBytes() * 4) {
+            controller.close();
+            return;
+          }
+          sent += chunk.length;
+          controller.enqueue(chunk);
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: stream,
+        duplex: "half",
+      } as RequestInit);
+
+      expect(response.status).toBe(413);
+    });
+  });
+
+  describe("/sse", () => {
+    it("serves tools over the legacy SSE transport", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toContain("superops_navigate");
+
+      await client.close();
+    });
+
+    it("accepts messages larger than the SDK's own 4 MB limit", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+      const result = await client.callTool({
+        name: "superops_navigate",
+        arguments: { domain: "tickets", pad: "a".repeat(5 * 1024 * 1024) },
+      });
+      expect(result.isError).toBeFalsy();
+
+      await client.close();
+    });
+  });
+
+  describe("structured output", () => {
+    const realFetch = globalThis.fetch;
+    const ticketList = {
+      tickets: [
+        {
+          ticketId: "1",
+          subject: "Printer offline",
+          status: "Open",
+          client: { accountId: "a1", name: "Acme" },
+          assignee: null,
+        },
+      ],
+      listInfo: { totalCount: 1, hasNextPage: false, endCursor: null },
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal("fetch", (input: string | URL | Request, init?: RequestInit) =>
+        String(input).includes("superops.ai")
+          ? Promise.resolve(
+              new Response(JSON.stringify({ data: { getTicketList: ticketList } }), {
+                status: 200,
+                headers: { "Content-Type": "application/json" },
+              })
+            )
+          : realFetch(input, init)
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("returns structuredContent matching each tool's outputSchema", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+      await client.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+
+      // Listing tools lets the client validate results against their output schemas
+      const { tools } = await client.listTools();
+      const domainTools = tools.filter((t) => t.name.startsWith("superops_tickets_"));
+      expect(domainTools.every((t) => t.outputSchema?.type === "object")).toBe(true);
+
+      const result = await client.callTool({
+        name: "superops_tickets_list",
+        arguments: { format: "table" },
+      });
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toEqual(ticketList);
+
+      await client.close();
+    });
+  });
+
+  describe("AUTH_MODE=header", () => {
+    const realFetch = globalThis.fetch;
+    let apiFetch: Mock<[string | URL | Request, RequestInit?], Promise<Response>>;
+
+    beforeEach(() => {
+      vi.stubEnv("AUTH_MODE", "header");
+      vi.stubEnv("SUPEROPS_API_TOKEN", "");
+      apiFetch = vi.fn(async (_input: string | URL | Request, _init?: RequestInit) =>
+        new Response(
+          JSON.stringify({
+            data: { getClientList: { clients: [], listInfo: { totalCount: 0, hasNextPage: false } } },
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        )
+      );
+      vi.stubGlobal("fetch", (input: string | URL | Request, init?: RequestInit) =>
+        String(input).includes("superops.ai") ? apiFetch(input, init) : realFetch(input, init)
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function connectTenant(token: string, subdomain: string): Promise<Client> {
+      const client = new Client({ name: subdomain, version: "1.0.0" });
+      const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: {
+          headers: {
+            "X-SuperOps-API-Token": token,
+            "X-SuperOps-Subdomain": subdomain,
+          },
+        },
+      });
+      return client.connect(transport).then(() => client);
+    }
+
+    it("uses each session's header credentials", async () => {
+      const tenantA = await connectTenant("token-a", "tenant-a");
+      const tenantB = await connectTenant("token-b", "tenant-b");
+
+      const resultA = await tenantA.callTool({ name: "superops_test_connection", arguments: {} });
+      const resultB = await tenantB.callTool({ name: "superops_test_connection", arguments: {} });
+
+      expect(JSON.stringify(resultA.content)).toContain("tenant-a");
+      expect(JSON.stringify(resultB.content)).toContain("tenant-b");
+      expect(JSON.stringify(resultA.content)).toContain("Queue depth: 0");
+      const sentHeaders = apiFetch.mock.calls.map(([, init]) => init?.headers);
+      expect(sentHeaders).toEqual([
+        expect.objectContaining({ Authorization: "Bearer token-a", CustomerSubDomain: "tenant-a" }),
+        expect.objectContaining({ Authorization: "Bearer token-b", CustomerSubDomain: "tenant-b" }),
+      ]);
+
+      await tenantA.close();
+      await tenantB.close();
+    });
+
+    it("rejects tool calls without credential headers", async () => {
+      const client = new Client({ name: "anonymous", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+      const result = await client.callTool({ name: "superops_test_connection", arguments: {} });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.stringify(result.content)).toContain("X-SuperOps-API-Token");
+      expect(apiFetch).not.toHaveBeenCalled();
+
+      await client.close();
+    });
+
+    it("reports header auth mode in /health", async () => {
+      const body = (await (await fetch(`${baseUrl}/health`)).json()) as HealthResponse;
+
+      expect(body.authMode).toBe("header");
+      expect(body.credentialsConfigured).toBeNull();
+    });
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * SuperOps.ai MCP HTTP Transport
+ *
+ * Serves the MCP server over Streamable HTTP at /mcp, with the legacy
+ * HTTP+SSE transport at /sse and /messages for older clients, and a
+ * /health endpoint for container health checks.
+ *
+ * Request bodies on both transports are read here, up to a size that fits
+ * the largest attachment upload, and refused with 413 beyond it.
+ *
+ * Browser requests from origins outside MCP_HTTP_ALLOWED_ORIGINS are refused,
+ * so a web page cannot reach the server through DNS rebinding. Streamable
+ * HTTP sessions left idle for MCP_HTTP_SESSION_IDLE_MS are closed.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "node:http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { createServer } from "./server.js";
+import { getAuthMode, getCredentials, getLastApiSuccess } from "./client.js";
+import { readEnvNumber } from "./env.js";
+import { getMaxAttachmentBytes } from "./domains/tickets-attachments.js";
+import { clearSession } from "./session.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+}
+
+export interface McpHttpServer {
+  httpServer: HttpServer;
+  close: () => Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Room in a request body for the JSON-RPC envelope and other arguments
+const BODY_OVERHEAD_BYTES = 1024 * 1024;
+
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Largest request body accepted: an attachment upload of the maximum size,
+ * base64-encoded, plus overhead.
+ */
+export function getMaxBodyBytes(): number {
+  return Math.ceil(getMaxAttachmentBytes() / 3) * 4 + BODY_OVERHEAD_BYTES;
+}
+
+/**
+ * Read and parse a JSON request body.
+ *
+ * @throws PayloadTooLargeError if the body is larger than `limit` bytes
+ */
+async function readJsonBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > limit) {
+    throw new PayloadTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > limit) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Read a POST body, answering 413 or a parse error itself when it cannot.
+ *
+ * @returns the parsed body, or undefined if a response was already sent
+ */
+async function readRequestBody(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<{ body: unknown } | undefined> {
+  const limit = getMaxBodyBytes();
+  try {
+    return { body: await readJsonBody(req, limit) };
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      // Close the connection rather than read the rest of the body
+      res.setHeader("Connection", "close");
+      sendJsonRpcError(res, 413, `Request body exceeds ${limit} bytes`);
+    } else {
+      sendJson(res, 400, {
+        jsonrpc: "2.0",
+        error: { code: -32700, message: "Parse error" },
+        id: null,
+      });
+    }
+    return undefined;
+  }
+}
+
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+// Longest wait between checks for idle sessions
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Whether a request from this browser origin may use the MCP endpoints.
+ * MCP_HTTP_ALLOWED_ORIGINS is a comma-separated list of origins, or `*` for
+ * any; by default only localhost origins are allowed.
+ */
+export function isAllowedOrigin(origin: string): boolean {
+  const configured = process.env.MCP_HTTP_ALLOWED_ORIGINS?.split(",")
+    .map((entry) => entry.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (configured && configured.length > 0) {
+    return configured.includes("*") || configured.includes(url.origin);
+  }
+  return (
+    (url.protocol === "http:" || url.protocol === "https:") &&
+    LOCAL_HOSTNAMES.includes(url.hostname)
+  );
+}
+
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  // Requests still being answered, including open GET streams
+  openRequests: number;
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<McpHttpServer> {
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  // Close sessions whose client went away without a DELETE
+  const idleMs = readEnvNumber("MCP_HTTP_SESSION_IDLE_MS", DEFAULT_SESSION_IDLE_MS, 1);
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of streamableSessions.values()) {
+      if (session.openRequests === 0 && session.lastActive < cutoff) {
+        void session.transport.close();
+      }
+    }
+  }, Math.min(idleMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  function trackRequest(session: StreamableSession, res: ServerResponse): void {
+    session.openRequests += 1;
+    session.lastActive = Date.now();
+    res.on("close", () => {
+      session.openRequests -= 1;
+      session.lastActive = Date.now();
+    });
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (req.method === "POST") {
+      const parsed = await readRequestBody(req, res);
+      if (!parsed) {
+        return;
+      }
+      const { body } = parsed;
+
+      const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+      if (existing) {
+        trackRequest(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          sessionId ? "Session not found" : "Bad Request: No valid session ID provided"
+        );
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableSessions.set(id, { transport, lastActive: Date.now(), openRequests: 0 });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          streamableSessions.delete(transport.sessionId);
+          clearSession(transport.sessionId);
+        }
+      };
+
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const session = sessionId ? streamableSessions.get(sessionId) : undefined;
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, "Invalid or missing session ID");
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport("/messages", res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      clearSession(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId");
+    const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    // Parsed here so the same size limit applies as on /mcp
+    const parsed = await readRequestBody(req, res);
+    if (!parsed) {
+      return;
+    }
+    await transport.handlePostMessage(req, res, parsed.body);
+  }
+
+  function handleHealth(res: ServerResponse): void {
+    const authMode = getAuthMode();
+    const lastApiSuccess = getLastApiSuccess();
+    sendJson(res, 200, {
+      status: "ok",
+      authMode,
+      // In header mode credentials arrive with each request
+      credentialsConfigured: authMode === "header" ? null : getCredentials() !== null,
+      lastApiSuccess: lastApiSuccess ? lastApiSuccess.toISOString() : null,
+      sessions: streamableSessions.size + sseTransports.size,
+    });
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const origin = req.headers.origin;
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      handleHealth(res);
+    } else if (origin !== undefined && !isAllowedOrigin(origin)) {
+      // Browsers send Origin; a foreign one may be a DNS rebinding attack
+      sendJsonRpcError(res, 403, `Origin not allowed: ${origin}`);
+    } else if (url.pathname === "/mcp") {
+      await handleStreamable(req, res);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSseConnect(res);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendJson(res, 404, { error: "Not found" });
+    }
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    route(req, res).catch((error) => {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  async function close(): Promise<void> {
+    clearInterval(sweep);
+    const transports = [
+      ...[...streamableSessions.values()].map((session) => session.transport),
+      ...sseTransports.values(),
+    ];
+    await Promise.allSettled(transports.map((transport) => transport.close()));
+    streamableSessions.clear();
+    sseTransports.clear();
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  return { httpServer, close };
+}
@@ -11,300 +11,72 @@
  * - Lazy loading of domain modules for faster startup
  * - GraphQL-based API communication
  * - Bearer token authentication
+ * - stdio or Streamable HTTP transport
  *
  * Environment Variables:
  * - SUPEROPS_API_TOKEN: Your SuperOps.ai API token
  * - SUPEROPS_SUBDOMAIN: Your SuperOps.ai subdomain
  * - SUPEROPS_REGION: API region (us or eu, default: us)
+ * - MCP_TRANSPORT: Transport to serve on (stdio or http, default: stdio)
+ * - MCP_HTTP_PORT: Port for the HTTP transport (default: 8080)
+ * - MCP_HTTP_HOST: Host for the HTTP transport (default: 127.0.0.1)
+ * - MCP_HTTP_ALLOWED_ORIGINS: Comma-separated browser origins allowed to use the
+ *   HTTP transport (default: localhost origins only)
+ * - MCP_HTTP_SESSION_IDLE_MS: Idle time after which an HTTP session is closed
+ *   (default: 30 minutes)
+ * - AUTH_MODE: Credential source (env or header, default: env). In header mode
+ *   each HTTP request supplies X-SuperOps-API-Token, X-SuperOps-Subdomain and
+ *   optionally X-SuperOps-Region.
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
 
-import type { Domain, DomainTools, ToolDefinition } from "./types.js";
-import { getCredentials } from "./client.js";
+import { createServer } from "./server.js";
+import { startHttpServer } from "./http.js";
 
-// Current active domain (null = navigation mode)
-let currentDomain: Domain | null = null;
-
-// Lazy-loaded domain modules
-const domainCache = new Map<Domain, DomainTools>();
-
-async function loadDomain(domain: Domain): Promise<DomainTools> {
-  const cached = domainCache.get(domain);
-  if (cached) {
-    return cached;
-  }
-
-  let tools: DomainTools;
-  switch (domain) {
-    case "clients": {
-      const { getClientsTools } = await import("./domains/clients.js");
-      tools = getClientsTools();
-      break;
-    }
-    case "tickets": {
-      const { getTicketsTools } = await import("./domains/tickets.js");
-      tools = getTicketsTools();
-      break;
-    }
-    case "assets": {
-      const { getAssetsTools } = await import("./domains/assets.js");
-      tools = getAssetsTools();
-      break;
-    }
-    case "technicians": {
-      const { getTechniciansTools } = await import("./domains/technicians.js");
-      tools = getTechniciansTools();
-      break;
-    }
-    case "custom": {
-      const { getCustomTools } = await import("./domains/custom.js");
-      tools = getCustomTools();
-      break;
-    }
-    default:
-      throw new Error(`Unknown domain: ${domain}`);
-  }
-
-  domainCache.set(domain, tools);
-  return tools;
+async function startStdio() {
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+  console.error("SuperOps.ai MCP server running on stdio");
 }
 
-// Navigation tool definition
-const navigationTool: ToolDefinition = {
-  name: "superops_navigate",
-  description:
-    "Navigate to a SuperOps.ai domain to access its tools. Available domains: clients (accounts/companies), tickets (service desk), assets (endpoints/devices), technicians (agents/teams), custom (advanced GraphQL queries).",
-  inputSchema: {
-    type: "object",
-    properties: {
-      domain: {
-        type: "string",
-        description: "The domain to navigate to",
-        enum: ["clients", "tickets", "assets", "technicians", "custom"],
-      },
-    },
-    required: ["domain"],
-  },
-};
+async function startHttp() {
+  const port = Number(process.env.MCP_HTTP_PORT ?? 8080);
+  const host = process.env.MCP_HTTP_HOST ?? "127.0.0.1";
 
-// Back/reset tool definition
-const backTool: ToolDefinition = {
-  name: "superops_back",
-  description:
-    "Return to the main navigation menu to select a different domain.",
-  inputSchema: {
-    type: "object",
-    properties: {},
-  },
-};
+  const { close } = await startHttpServer({ host, port });
+  console.error(`SuperOps.ai MCP server listening on http://${host}:${port}/mcp`);
 
-// Connection test tool
-const testConnectionTool: ToolDefinition = {
-  name: "superops_test_connection",
-  description:
-    "Test the connection to SuperOps.ai API using configured credentials.",
-  inputSchema: {
-    type: "object",
-    properties: {},
-  },
-};
-
-const server = new Server(
-  {
-    name: "superops-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// List available tools based on current domain state
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  const tools: ToolDefinition[] = [testConnectionTool];
-
-  if (currentDomain === null) {
-    // Navigation mode - show navigation tool
-    tools.push(navigationTool);
-  } else {
-    // Domain mode - show domain tools plus back tool
-    tools.push(backTool);
-    const domainTools = await loadDomain(currentDomain);
-    tools.push(...domainTools.tools);
-  }
-
-  return { tools };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  // Handle test connection
-  if (name === "superops_test_connection") {
-    const creds = getCredentials();
-    if (!creds) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Error: No API credentials configured. Please set SUPEROPS_API_TOKEN and SUPEROPS_SUBDOMAIN environment variables.",
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    try {
-      // Try to load clients domain and make a simple query
-      const clientsTools = await loadDomain("clients");
-      const result = await clientsTools.handleCall("superops_clients_list", {
-        max: 1,
+  const shutdown = (signal: string) => {
+    console.error(`Received ${signal}, shutting down`);
+    close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error("Error during shutdown:", error);
+        process.exit(1);
       });
-
-      if (result.isError) {
-        return result;
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Connection successful!\n\nCredentials configured for:\n- Subdomain: ${creds.subdomain}\n- Region: ${creds.region ?? "us"}\n\nAPI is responding correctly.`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Connection test failed: ${message}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  }
-
-  // Handle navigation
-  if (name === "superops_navigate") {
-    const { domain } = (args ?? {}) as { domain?: string };
-    const validDomains: Domain[] = [
-      "clients",
-      "tickets",
-      "assets",
-      "technicians",
-      "custom",
-    ];
-
-    if (!domain || !validDomains.includes(domain as Domain)) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Invalid domain. Please choose from: ${validDomains.join(", ")}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    currentDomain = domain as Domain;
-    const domainTools = await loadDomain(currentDomain);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Navigated to ${domain} domain. Available tools:\n\n${domainTools.tools.map((t) => `- ${t.name}: ${t.description}`).join("\n")}\n\nUse superops_back to return to the main menu.`,
-        },
-      ],
-    };
-  }
-
-  // Handle back
-  if (name === "superops_back") {
-    currentDomain = null;
-    return {
-      content: [
-        {
-          type: "text",
-          text: "Returned to main navigation. Use superops_navigate to select a domain:\n\n- clients: Manage client accounts and contacts\n- tickets: Service desk and ticket management\n- assets: Endpoint inventory and RMM\n- technicians: Agent and team management\n- custom: Advanced GraphQL queries",
-        },
-      ],
-    };
-  }
-
-  // Check for credential issues before domain calls
-  const creds = getCredentials();
-  if (!creds) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: "Error: No API credentials configured. Please set SUPEROPS_API_TOKEN and SUPEROPS_SUBDOMAIN environment variables.",
-        },
-      ],
-      isError: true,
-    };
-  }
-
-  // Handle domain-specific tools
-  if (currentDomain) {
-    const domainTools = await loadDomain(currentDomain);
-
-    // Check if the tool belongs to this domain
-    const toolBelongsToDomain = domainTools.tools.some((t) => t.name === name);
-    if (toolBelongsToDomain) {
-      return domainTools.handleCall(name, (args ?? {}) as Record<string, unknown>);
-    }
-  }
-
-  // Try to find the tool in any domain (for direct access)
-  const allDomains: Domain[] = [
-    "clients",
-    "tickets",
-    "assets",
-    "technicians",
-    "custom",
-  ];
-
-  for (const domain of allDomains) {
-    const domainTools = await loadDomain(domain);
-    const toolExists = domainTools.tools.some((t) => t.name === name);
-    if (toolExists) {
-      // Auto-navigate to the domain
-      currentDomain = domain;
-      return domainTools.handleCall(name, (args ?? {}) as Record<string, unknown>);
-    }
-  }
-
-  return {
-    content: [
-      {
-        type: "text",
-        text: `Unknown tool: ${name}. Use superops_navigate to explore available tools.`,
-      },
-    ],
-    isError: true,
   };
-});
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
+}
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("SuperOps.ai MCP server running on stdio");
+  const transport = process.env.MCP_TRANSPORT ?? "stdio";
+
+  switch (transport) {
+    case "stdio":
+      await startStdio();
+      break;
+    case "http":
+      await startHttp();
+      break;
+    default:
+      throw new Error(`Unknown MCP_TRANSPORT: ${transport}. Use "stdio" or "http".`);
+  }
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
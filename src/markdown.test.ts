@@ -0,0 +1,142 @@
+/**
+ * Message Formatting Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  escapeHtml,
+  inlineMarkdown,
+  markdownToHtml,
+  messageToHtml,
+  textToHtml,
+} from "./markdown.js";
+
+describe("escapeHtml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeHtml(`<b class="x">Tom & Jerry's</b>`)).toBe(
+      "&lt;b class=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/b&gt;"
+    );
+  });
+});
+
+describe("textToHtml", () => {
+  it("splits paragraphs and keeps line breaks", () => {
+    expect(textToHtml("Hi Jane,\r\n\r\nThe printer is back.\nThanks,\nTech <Support>")).toBe(
+      "<p>Hi Jane,</p>\n<p>The printer is back.<br>Thanks,<br>Tech &lt;Support&gt;</p>"
+    );
+  });
+});
+
+describe("inlineMarkdown", () => {
+  it("formats bold, italics and strikethrough", () => {
+    expect(inlineMarkdown("**bold**, __bold__, *em*, _em_ and ~~gone~~")).toBe(
+      "<strong>bold</strong>, <strong>bold</strong>, <em>em</em>, <em>em</em> and <del>gone</del>"
+    );
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(inlineMarkdown("run fix_print_spooler")).toBe("run fix_print_spooler");
+  });
+
+  it("does not format inside code spans", () => {
+    expect(inlineMarkdown("Run `rm *.tmp <dir>` then **reboot**")).toBe(
+      "Run <code>rm *.tmp &lt;dir&gt;</code> then <strong>reboot</strong>"
+    );
+  });
+
+  it("links only web and mailto URLs", () => {
+    expect(inlineMarkdown("[portal](https://example.com/?a=1&b=2)")).toBe(
+      '<a href="https://example.com/?a=1&amp;b=2">portal</a>'
+    );
+    expect(inlineMarkdown("[mail us](mailto:help@example.com)")).toBe(
+      '<a href="mailto:help@example.com">mail us</a>'
+    );
+    expect(inlineMarkdown("[click](javascript:steal)")).toBe("click");
+  });
+
+  it("does not format emphasis inside a link's URL", () => {
+    expect(inlineMarkdown("[share](https://files.example.com/*logs*/a.txt) and *this*")).toBe(
+      '<a href="https://files.example.com/*logs*/a.txt">share</a> and <em>this</em>'
+    );
+    expect(inlineMarkdown("[**docs**](https://example.com/__init__)")).toBe(
+      '<a href="https://example.com/__init__"><strong>docs</strong></a>'
+    );
+  });
+
+  it("keeps balanced parentheses in a link's URL", () => {
+    expect(inlineMarkdown("[docs](https://en.wikipedia.org/wiki/Foo_(bar)) (see above)")).toBe(
+      '<a href="https://en.wikipedia.org/wiki/Foo_(bar)">docs</a> (see above)'
+    );
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("converts headings, lists and paragraphs", () => {
+    const markdown = [
+      "## Next steps",
+      "Please try the following:",
+      "",
+      "1. Restart the **printer**",
+      "2. Print a test page",
+      "",
+      "- Toner: ok",
+      "* Paper: low",
+      "",
+      "Thanks,",
+      "Support",
+    ].join("\n");
+
+    expect(markdownToHtml(markdown)).toBe(
+      [
+        "<h2>Next steps</h2>",
+        "<p>Please try the following:</p>",
+        "<ol>",
+        "<li>Restart the <strong>printer</strong></li>",
+        "<li>Print a test page</li>",
+        "</ol>",
+        "<ul>",
+        "<li>Toner: ok</li>",
+        "<li>Paper: low</li>",
+        "</ul>",
+        "<p>Thanks,<br>Support</p>",
+      ].join("\n")
+    );
+  });
+
+  it("converts code blocks, quotes and rules", () => {
+    const markdown = [
+      "> You wrote:",
+      "> it *broke*",
+      "",
+      "```",
+      "ipconfig /flushdns",
+      "<done>",
+      "```",
+      "---",
+    ].join("\n");
+
+    expect(markdownToHtml(markdown)).toBe(
+      [
+        "<blockquote>",
+        "<p>You wrote:<br>it <em>broke</em></p>",
+        "</blockquote>",
+        "<pre><code>ipconfig /flushdns\n&lt;done&gt;</code></pre>",
+        "<hr>",
+      ].join("\n")
+    );
+  });
+
+  it("escapes raw HTML", () => {
+    expect(markdownToHtml("<script>alert(1)</script>")).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"
+    );
+  });
+});
+
+describe("messageToHtml", () => {
+  it("converts according to the format", () => {
+    expect(messageToHtml("*hi*")).toBe("<p>*hi*</p>");
+    expect(messageToHtml("*hi*", "markdown")).toBe("<p><em>hi</em></p>");
+    expect(messageToHtml("<p>hi</p>", "html")).toBe("<p>hi</p>");
+  });
+});
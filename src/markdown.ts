@@ -0,0 +1,206 @@
+/**
+ * Message Formatting
+ *
+ * Converts replies written as plain text or Markdown into the HTML SuperOps
+ * stores for ticket conversations. Covers the Markdown an email needs:
+ * paragraphs, headings, lists, quotes, code, links, bold and italics. Single
+ * line breaks are kept, as in an email, and raw HTML is escaped.
+ */
+
+export type MessageFormat = "text" | "markdown" | "html";
+
+// Input schema property for a message's format argument
+export const messageFormatProperty = {
+  type: "string",
+  description:
+    "How the message is written: text (plain text), markdown (converted to HTML), or html (sent as is) (default: text)",
+  enum: ["text", "markdown", "html"],
+  default: "text",
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const RULE = /^(\*{3,}|-{3,}|_{3,})$/;
+const FENCE = /^(```|~~~)/;
+const QUOTE = /^>\s?/;
+const BULLET = /^[-*+]\s+/;
+const NUMBERED = /^\d+[.)]\s+/;
+
+// Link targets kept as links; anything else renders as its text only
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// A link, whose URL may hold balanced parentheses as in Foo_(bar)
+const LINK = /(\[[^\]]+\]\((?:[^()\s]|\([^()\s]*\))+\))/;
+const LINK_PARTS = /^\[([^\]]+)\]\((.+)\)$/;
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function paragraphsOf(lines: string[]): string[][] {
+  const paragraphs: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === "") {
+      if (current.length > 0) paragraphs.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) paragraphs.push(current);
+  return paragraphs;
+}
+
+/**
+ * Plain text as HTML paragraphs, one per blank-line-separated block, keeping
+ * line breaks within each.
+ */
+export function textToHtml(text: string): string {
+  return paragraphsOf(text.replace(/\r\n?/g, "\n").split("\n"))
+    .map((lines) => `<p>${lines.map((line) => escapeHtml(line.trim())).join("<br>")}</p>`)
+    .join("\n");
+}
+
+function formatEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\b__(?=\S)(.+?)__\b/g, "<strong>$1</strong>")
+    .replace(/\*(?=\S)(.+?)\*/g, "<em>$1</em>")
+    .replace(/\b_(?=\S)(.+?)_\b/g, "<em>$1</em>")
+    .replace(/~~(?=\S)(.+?)~~/g, "<del>$1</del>");
+}
+
+function formatLink(link: string): string {
+  const [, label, url] = LINK_PARTS.exec(link) as RegExpExecArray;
+  const text = formatEmphasis(label);
+  return SAFE_URL.test(url) ? `<a href="${url}">${text}</a>` : text;
+}
+
+// Links are formatted apart from the text around them, so emphasis never
+// reaches into a URL
+function formatLinksAndEmphasis(text: string): string {
+  return text
+    .split(LINK)
+    .map((part, i) => (i % 2 === 1 ? formatLink(part) : formatEmphasis(part)))
+    .join("");
+}
+
+/**
+ * Inline Markdown: code spans, links, bold, italics and strikethrough. Code
+ * spans are left unformatted.
+ */
+export function inlineMarkdown(text: string): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+        : formatLinksAndEmphasis(escapeHtml(part))
+    )
+    .join("");
+}
+
+function isBlockStart(line: string): boolean {
+  return [HEADING, RULE, FENCE, QUOTE, BULLET, NUMBERED].some((pattern) =>
+    pattern.test(line.trim())
+  );
+}
+
+/**
+ * Convert Markdown to HTML. Nested lists are not supported; their items are
+ * flattened into the enclosing list.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    if (line === "") {
+      i += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      i += 1;
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${inlineMarkdown(heading[2])}</h${level}>`);
+      i += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push("<hr>");
+      i += 1;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].trim())) {
+        quoted.push(lines[i].trim().replace(QUOTE, ""));
+        i += 1;
+      }
+      blocks.push(`<blockquote>\n${markdownToHtml(quoted.join("\n"))}\n</blockquote>`);
+      continue;
+    }
+
+    const marker = BULLET.test(line) ? BULLET : NUMBERED.test(line) ? NUMBERED : undefined;
+    if (marker) {
+      const items: string[] = [];
+      while (i < lines.length && marker.test(lines[i].trim())) {
+        items.push(`<li>${inlineMarkdown(lines[i].trim().replace(marker, ""))}</li>`);
+        i += 1;
+      }
+      const tag = marker === BULLET ? "ul" : "ol";
+      blocks.push(`<${tag}>\n${items.join("\n")}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() !== "" && !isBlockStart(lines[i])) {
+      paragraph.push(inlineMarkdown(lines[i].trim()));
+      i += 1;
+    }
+    blocks.push(`<p>${paragraph.join("<br>")}</p>`);
+  }
+
+  return blocks.join("\n");
+}
+
+/**
+ * The HTML to send for a message written in `format`.
+ */
+export function messageToHtml(message: string, format: MessageFormat = "text"): string {
+  switch (format) {
+    case "markdown":
+      return markdownToHtml(message);
+    case "html":
+      return message;
+    default:
+      return textToHtml(message);
+  }
+}
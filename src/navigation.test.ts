@@ -4,11 +4,16 @@
  * Tests for domain navigation state, tool loading, and request handling.
  */
 
-import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, vi, afterEach, type Mock } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 
 // Mock the client module
 vi.mock("./client.js", () => ({
+  getAuthMode: vi.fn(),
   getCredentials: vi.fn(),
+  parseCredentialsFromHeaders: vi.fn(),
   getClient: vi.fn(),
   resetClient: vi.fn(),
 }));
@@ -81,6 +86,7 @@ vi.mock("./domains/custom.js", () => ({
 
 import { getCredentials } from "./client.js";
 import { getClientsTools } from "./domains/clients.js";
+import { getTicketsTools } from "./domains/tickets.js";
 
 describe("Navigation State Management", () => {
   beforeEach(() => {
@@ -321,4 +327,150 @@ describe("Navigation State Management", () => {
       expect(backResponse.content[0].text).toContain("tickets");
     });
   });
+
+  describe("tools/list_changed notifications", () => {
+    let client: Client;
+    let listChanged: Mock<[], void>;
+
+    beforeEach(async () => {
+      // Fresh server module so the domain cache and session state start empty
+      vi.resetModules();
+      vi.mocked(getCredentials).mockReturnValue({
+        apiToken: "test-token",
+        subdomain: "test-company",
+      });
+      vi.mocked(getClientsTools).mockReturnValue({
+        tools: [
+          {
+            name: "superops_clients_list",
+            description: "List clients",
+            inputSchema: { type: "object", properties: {} },
+          },
+        ],
+        handleCall: vi.fn(),
+      });
+      vi.mocked(getTicketsTools).mockReturnValue({
+        tools: [
+          {
+            name: "superops_tickets_list",
+            description: "List tickets",
+            inputSchema: {
+              type: "object",
+              properties: { max: { type: "number", minimum: 1, maximum: 500 } },
+            },
+          },
+        ],
+        handleCall: vi.fn().mockResolvedValue({
+          content: [{ type: "text", text: "[]" }],
+        }),
+      });
+
+      const { createServer } = await import("./server.js");
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await createServer().connect(serverTransport);
+
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      listChanged = vi.fn<[], void>();
+      client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it("declares the listChanged capability", () => {
+      expect(client.getServerCapabilities()?.tools?.listChanged).toBe(true);
+    });
+
+    it("notifies after navigating to a domain", async () => {
+      await client.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+
+      expect(listChanged).toHaveBeenCalledTimes(1);
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toContain("superops_tickets_list");
+    });
+
+    it("does not notify when navigating to the current domain", async () => {
+      await client.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+      await client.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+
+      expect(listChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it("notifies after going back", async () => {
+      await client.callTool({ name: "superops_navigate", arguments: { domain: "tickets" } });
+      await client.callTool({ name: "superops_back", arguments: {} });
+
+      expect(listChanged).toHaveBeenCalledTimes(2);
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toContain("superops_navigate");
+    });
+
+    it("does not notify when going back from navigation mode", async () => {
+      await client.callTool({ name: "superops_back", arguments: {} });
+
+      expect(listChanged).not.toHaveBeenCalled();
+    });
+
+    it("notifies when a direct tool call auto-navigates", async () => {
+      await client.callTool({ name: "superops_tickets_list", arguments: {} });
+
+      expect(listChanged).toHaveBeenCalledTimes(1);
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toContain("superops_back");
+    });
+
+    it("passes the request's abort signal to domain handlers", async () => {
+      await client.callTool({ name: "superops_tickets_list", arguments: {} });
+
+      const { handleCall } = vi.mocked(getTicketsTools).mock.results[0].value;
+      expect(handleCall).toHaveBeenCalledWith(
+        "superops_tickets_list",
+        {},
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it("rejects invalid arguments before calling the domain handler", async () => {
+      const result = await client.callTool({
+        name: "superops_tickets_list",
+        arguments: { max: 0 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        {
+          type: "text",
+          text: "Error (validation): Invalid argument for superops_tickets_list: `max` must be at least 1, got 0\nCheck the arguments against the tool's input schema.",
+        },
+      ]);
+      const { handleCall } = vi.mocked(getTicketsTools).mock.results[0].value;
+      expect(handleCall).not.toHaveBeenCalled();
+    });
+
+    it("drops null optional arguments before calling the domain handler", async () => {
+      await client.callTool({
+        name: "superops_tickets_list",
+        arguments: { max: 10, cursor: null },
+      });
+
+      const { handleCall } = vi.mocked(getTicketsTools).mock.results[0].value;
+      expect(handleCall).toHaveBeenCalledWith(
+        "superops_tickets_list",
+        { max: 10 },
+        expect.anything()
+      );
+    });
+
+    it("does not notify for an invalid domain", async () => {
+      const result = await client.callTool({
+        name: "superops_navigate",
+        arguments: { domain: "invalid" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(listChanged).not.toHaveBeenCalled();
+    });
+  });
 });
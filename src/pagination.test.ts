@@ -0,0 +1,176 @@
+/**
+ * List Pagination Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  MAX_PAGES,
+  MAX_TOTAL_ITEMS,
+  fetchList,
+  type Page,
+  type PageInput,
+} from "./pagination.js";
+
+// Serves `total` numbered items in pages of at most `first`
+function pagedSource(total: number) {
+  return vi.fn(async ({ first, after }: PageInput): Promise<Page<number>> => {
+    const start = after ? Number(after) : 0;
+    const end = Math.min(start + first, total);
+    const items = Array.from({ length: end - start }, (_, i) => start + i);
+    return {
+      items,
+      listInfo: {
+        totalCount: total,
+        hasNextPage: end < total,
+        endCursor: String(end),
+      },
+    };
+  });
+}
+
+describe("fetchList", () => {
+  it("fetches a single page by default", async () => {
+    const fetchPage = pagedSource(200);
+
+    const result = await fetchList({}, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith({ first: 50 });
+    expect(result.items).toHaveLength(50);
+    expect(result.listInfo.endCursor).toBe("50");
+    expect(result.pagination).toBeUndefined();
+  });
+
+  it("treats a null maxTotal as unset", async () => {
+    const fetchPage = pagedSource(200);
+
+    const args = { max: 10, maxTotal: null as unknown as number };
+
+    const result = await fetchList(args, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith({ first: 10 });
+    expect(result.items).toHaveLength(10);
+    expect(result.pagination).toBeUndefined();
+  });
+
+  it("passes max and cursor through for a single page", async () => {
+    const fetchPage = pagedSource(200);
+
+    await fetchList({ max: 1000, cursor: "20" }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledWith({ first: 500, after: "20" });
+  });
+
+  it("follows cursors until the last page when all is set", async () => {
+    const fetchPage = pagedSource(1200);
+
+    const result = await fetchList({ all: true }, 50, fetchPage);
+
+    expect(fetchPage.mock.calls.map(([input]) => input)).toEqual([
+      { first: 500 },
+      { first: 500, after: "500" },
+      { first: 500, after: "1000" },
+    ]);
+    expect(result.items).toHaveLength(1200);
+    expect(result.pagination).toEqual({
+      pagesFetched: 3,
+      itemsFetched: 1200,
+      truncated: false,
+    });
+  });
+
+  it("stops at maxTotal and reports truncation", async () => {
+    const fetchPage = pagedSource(1200);
+
+    const result = await fetchList({ maxTotal: 600 }, 50, fetchPage);
+
+    expect(fetchPage.mock.calls.map(([input]) => input)).toEqual([
+      { first: 500 },
+      { first: 100, after: "500" },
+    ]);
+    expect(result.items).toHaveLength(600);
+    expect(result.listInfo.endCursor).toBe("600");
+    expect(result.pagination).toEqual({
+      pagesFetched: 2,
+      itemsFetched: 600,
+      truncated: true,
+    });
+  });
+
+  it("starts from the cursor when auto-paginating", async () => {
+    const fetchPage = pagedSource(700);
+
+    const result = await fetchList({ all: true, cursor: "500" }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledWith({ first: 500, after: "500" });
+    expect(result.items[0]).toBe(500);
+    expect(result.pagination?.itemsFetched).toBe(200);
+  });
+
+  it("never fetches more than the hard ceiling", async () => {
+    const fetchPage = pagedSource(MAX_TOTAL_ITEMS * 2);
+
+    const result = await fetchList({ maxTotal: MAX_TOTAL_ITEMS * 2 }, 50, fetchPage);
+
+    expect(result.items).toHaveLength(MAX_TOTAL_ITEMS);
+    expect(result.pagination?.truncated).toBe(true);
+  });
+
+  it("stops when a page has no end cursor", async () => {
+    const fetchPage = vi.fn(async () => ({
+      items: [1, 2],
+      listInfo: { totalCount: 10, hasNextPage: true },
+    }));
+
+    const result = await fetchList({ all: true }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(result.pagination?.truncated).toBe(true);
+  });
+
+  it("stops when a page is empty", async () => {
+    const fetchPage = vi.fn(async ({ after }: PageInput) => ({
+      items: [] as number[],
+      listInfo: { totalCount: 10, hasNextPage: true, endCursor: `${after ?? ""}x` },
+    }));
+
+    const result = await fetchList({ all: true }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(result.pagination?.truncated).toBe(true);
+  });
+
+  it("stops when the cursor does not advance", async () => {
+    const fetchPage = vi.fn(async () => ({
+      items: [1, 2],
+      listInfo: { totalCount: 10, hasNextPage: true, endCursor: "same" },
+    }));
+
+    const result = await fetchList({ all: true }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.items).toEqual([1, 2, 1, 2]);
+    expect(result.pagination?.truncated).toBe(true);
+  });
+
+  it("never fetches more than the page ceiling", async () => {
+    // One item per page, so the item ceiling is never reached
+    const fetchPage = vi.fn(async ({ after }: PageInput) => {
+      const next = Number(after ?? 0) + 1;
+      return {
+        items: [next],
+        listInfo: { totalCount: MAX_TOTAL_ITEMS, hasNextPage: true, endCursor: String(next) },
+      };
+    });
+
+    const result = await fetchList({ all: true }, 50, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(MAX_PAGES);
+    expect(result.pagination).toEqual({
+      pagesFetched: MAX_PAGES,
+      itemsFetched: MAX_PAGES,
+      truncated: true,
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * List Pagination
+ *
+ * Shared cursor handling for list tools: either a single page, or every
+ * page up to a limit when the caller sets `all` or `maxTotal`.
+ */
+
+import type { ListInfo } from "./types.js";
+
+// Largest page the API returns
+export const MAX_PAGE_SIZE = 500;
+
+// Hard ceiling on items fetched by one auto-paginated call
+export const MAX_TOTAL_ITEMS = 5000;
+
+// Hard ceiling on pages fetched by one auto-paginated call: enough to reach
+// MAX_TOTAL_ITEMS even if the API serves pages of 50
+export const MAX_PAGES = Math.ceil(MAX_TOTAL_ITEMS / 50);
+
+export interface PaginationArgs {
+  max?: number;
+  cursor?: string;
+  all?: boolean;
+  maxTotal?: number;
+}
+
+export interface PageInput {
+  first: number;
+  after?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  listInfo: ListInfo;
+}
+
+export interface PaginationSummary {
+  pagesFetched: number;
+  itemsFetched: number;
+  // More items remain; continue from listInfo.endCursor
+  truncated: boolean;
+}
+
+export interface ListResult<T> extends Page<T> {
+  // Present only for auto-paginated calls
+  pagination?: PaginationSummary;
+}
+
+// Input schema properties for list tools' auto-pagination arguments
+export const paginationProperties = {
+  all: {
+    type: "boolean",
+    description: `Fetch every page instead of one, up to ${MAX_TOTAL_ITEMS} results (default: false)`,
+    default: false,
+  },
+  maxTotal: {
+    type: "number",
+    description: `Fetch pages until this many results are collected (implies all, max: ${MAX_TOTAL_ITEMS})`,
+    minimum: 1,
+    maximum: MAX_TOTAL_ITEMS,
+  },
+};
+
+/**
+ * Fetch a list through `fetchPage`. Without `all` or `maxTotal`, fetches one
+ * page of `max` items (default `defaultMax`) starting at `cursor`. Otherwise
+ * follows endCursor until the last page or the item limit is reached, or
+ * stops early if a page is empty, the cursor does not advance, or MAX_PAGES
+ * pages have been fetched.
+ */
+export async function fetchList<T>(
+  args: PaginationArgs,
+  defaultMax: number,
+  fetchPage: (input: PageInput) => Promise<Page<T>>
+): Promise<ListResult<T>> {
+  if (!args.all && args.maxTotal == null) {
+    return fetchPage({
+      first: Math.min(args.max ?? defaultMax, MAX_PAGE_SIZE),
+      ...(args.cursor && { after: args.cursor }),
+    });
+  }
+
+  const limit = Math.max(1, Math.min(args.maxTotal ?? MAX_TOTAL_ITEMS, MAX_TOTAL_ITEMS));
+  const items: T[] = [];
+  let after = args.cursor;
+  let pagesFetched = 0;
+  let listInfo: ListInfo;
+
+  let stalled = false;
+
+  do {
+    const page = await fetchPage({
+      first: Math.min(limit - items.length, MAX_PAGE_SIZE),
+      ...(after && { after }),
+    });
+    pagesFetched += 1;
+    items.push(...page.items.slice(0, limit - items.length));
+    listInfo = page.listInfo;
+    // An empty page or a repeated cursor would otherwise be fetched forever
+    stalled = page.items.length === 0 || listInfo.endCursor === after;
+    after = listInfo.endCursor;
+  } while (
+    listInfo.hasNextPage &&
+    after &&
+    !stalled &&
+    items.length < limit &&
+    pagesFetched < MAX_PAGES
+  );
+
+  return {
+    items,
+    listInfo,
+    pagination: {
+      pagesFetched,
+      itemsFetched: items.length,
+      truncated: listInfo.hasNextPage,
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RateLimiter, getRateLimiterOptions } from "./rate-limiter.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("grants requests immediately while under the limits", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrency: 5 });
+
+    const releases = await Promise.all([limiter.acquire(), limiter.acquire()]);
+
+    expect(limiter.stats()).toMatchObject({ active: 2, queueDepth: 0, lastWaitMs: 0 });
+    releases.forEach((release) => release());
+    expect(limiter.stats().active).toBe(0);
+  });
+
+  it("queues requests beyond the concurrency limit", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 6000, maxConcurrency: 1 });
+
+    const release = await limiter.acquire();
+    const granted = vi.fn();
+    limiter.acquire().then(granted);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).not.toHaveBeenCalled();
+    expect(limiter.stats().queueDepth).toBe(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toHaveBeenCalled();
+    expect(limiter.stats().queueDepth).toBe(0);
+  });
+
+  it("queues requests once the token bucket is empty", async () => {
+    // One request per second, bucket of one
+    const limiter = new RateLimiter({ requestsPerMinute: 60, maxConcurrency: 10 });
+
+    (await limiter.acquire())();
+    const granted = vi.fn();
+    limiter.acquire().then((release) => {
+      granted();
+      release();
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(granted).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveBeenCalled();
+    expect(limiter.stats()).toMatchObject({ lastWaitMs: 1000, maxWaitMs: 1000, totalRequests: 2 });
+  });
+
+  it("grants queued requests in order", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, maxConcurrency: 10 });
+    const order: number[] = [];
+
+    const granted = Promise.all(
+      [1, 2, 3].map((n) =>
+        limiter.acquire().then((release) => {
+          order.push(n);
+          release();
+        })
+      )
+    );
+    await vi.advanceTimersByTimeAsync(2000);
+    await granted;
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("removes queued requests when their signal aborts", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 6000, maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const release = await limiter.acquire();
+    const queued = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toBeDefined();
+    expect(limiter.stats().queueDepth).toBe(0);
+    release();
+    expect(limiter.stats().active).toBe(0);
+  });
+
+  it("rejects immediately for an already aborted signal", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrency: 1 });
+
+    await expect(limiter.acquire(AbortSignal.abort())).rejects.toBeDefined();
+    expect(limiter.stats().totalRequests).toBe(0);
+  });
+
+  it("ignores repeated releases", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrency: 2 });
+
+    const release = await limiter.acquire();
+    await limiter.acquire();
+    release();
+    release();
+
+    expect(limiter.stats().active).toBe(1);
+  });
+
+  it("reads limits from the environment", () => {
+    vi.stubEnv("SUPEROPS_RATE_LIMIT_RPM", "120");
+    vi.stubEnv("SUPEROPS_MAX_CONCURRENCY", "2");
+
+    expect(getRateLimiterOptions()).toEqual({ requestsPerMinute: 120, maxConcurrency: 2 });
+  });
+
+  it("falls back to defaults for invalid limits", () => {
+    vi.stubEnv("SUPEROPS_RATE_LIMIT_RPM", "0");
+    vi.stubEnv("SUPEROPS_MAX_CONCURRENCY", "lots");
+
+    expect(getRateLimiterOptions()).toEqual({ requestsPerMinute: 600, maxConcurrency: 5 });
+  });
+});
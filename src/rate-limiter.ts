@@ -0,0 +1,164 @@
+/**
+ * Client-Side Rate Limiter
+ *
+ * Token bucket limiting requests per minute, combined with a cap on
+ * concurrent requests. Callers over either limit are queued in order
+ * rather than rejected.
+ */
+
+import { readEnvNumber } from "./env.js";
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+}
+
+export interface RateLimiterStats {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+  // Requests waiting for a slot
+  queueDepth: number;
+  // Requests currently holding a slot
+  active: number;
+  totalRequests: number;
+  lastWaitMs: number;
+  maxWaitMs: number;
+  averageWaitMs: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+}
+
+export function getRateLimiterOptions(): RateLimiterOptions {
+  return {
+    requestsPerMinute: readEnvNumber("SUPEROPS_RATE_LIMIT_RPM", 600, 1),
+    maxConcurrency: readEnvNumber("SUPEROPS_MAX_CONCURRENCY", 5, 1),
+  };
+}
+
+export class RateLimiter {
+  private readonly options: RateLimiterOptions;
+  // Bucket holds up to one second's worth of requests
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private totalRequests = 0;
+  private totalWaitMs = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.capacity = Math.max(1, options.requestsPerMinute / 60);
+    this.refillPerMs = options.requestsPerMinute / 60_000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a request slot. Rejects with the signal's reason if it aborts
+   * while the request is still queued.
+   *
+   * @returns a function that must be called when the request finishes
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve: (release) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(release);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  stats(): RateLimiterStats {
+    return {
+      requestsPerMinute: this.options.requestsPerMinute,
+      maxConcurrency: this.options.maxConcurrency,
+      queueDepth: this.queue.length,
+      active: this.active,
+      totalRequests: this.totalRequests,
+      lastWaitMs: this.lastWaitMs,
+      maxWaitMs: this.maxWaitMs,
+      averageWaitMs:
+        this.totalRequests > 0 ? Math.round(this.totalWaitMs / this.totalRequests) : 0,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (
+      this.queue.length > 0 &&
+      this.active < this.options.maxConcurrency &&
+      this.tokens >= 1
+    ) {
+      const waiter = this.queue.shift() as Waiter;
+      this.tokens -= 1;
+      this.active += 1;
+      this.recordWait(Date.now() - waiter.enqueuedAt);
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.active -= 1;
+        this.drain();
+      });
+    }
+
+    // Out of tokens: check again once the next one has accrued. A full
+    // concurrency slot is picked up when a request releases instead.
+    if (
+      this.queue.length > 0 &&
+      this.active < this.options.maxConcurrency &&
+      this.timer === null
+    ) {
+      const delayMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, delayMs);
+    }
+  }
+
+  private recordWait(waitMs: number): void {
+    this.totalRequests += 1;
+    this.totalWaitMs += waitMs;
+    this.lastWaitMs = waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Tool Output Schemas
+ *
+ * JSON Schemas for tool results, mirroring the interfaces in types.ts. No
+ * property is required and any may be null: the API leaves out or nulls
+ * fields it has no value for, and the fields argument narrows results.
+ */
+
+import type { PaginationSummary } from "./pagination.js";
+import type {
+  Address,
+  Asset,
+  Attachment,
+  Category,
+  Client,
+  Contact,
+  ConversationEntry,
+  CustomField,
+  LinkedTicket,
+  ListInfo,
+  PatchStatus,
+  Site,
+  TechGroup,
+  Technician,
+  Ticket,
+  TicketNote,
+  TimeEntry,
+  ToolOutputSchema,
+} from "./types.js";
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+export const STRING: JsonSchema = { type: ["string", "null"] };
+export const NUMBER: JsonSchema = { type: ["number", "null"] };
+export const BOOLEAN: JsonSchema = { type: ["boolean", "null"] };
+
+export function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: ["array", "null"], items };
+}
+
+/**
+ * Schema for an object with one property per field of T, so the compiler
+ * checks it against the interface.
+ */
+export function objectOf<T>(properties: Record<keyof T & string, JsonSchema>): JsonSchema {
+  return { type: ["object", "null"], properties };
+}
+
+export const ADDRESS_SCHEMA = objectOf<Address>({
+  street: STRING,
+  city: STRING,
+  state: STRING,
+  country: STRING,
+  postalCode: STRING,
+});
+
+export const TECHNICIAN_SCHEMA = objectOf<Technician>({
+  id: STRING,
+  name: STRING,
+  email: STRING,
+  phone: STRING,
+});
+
+export const SITE_SCHEMA = objectOf<Site>({
+  id: STRING,
+  name: STRING,
+  address: ADDRESS_SCHEMA,
+  phone: STRING,
+  timezone: STRING,
+  isDefault: BOOLEAN,
+  assetCount: NUMBER,
+  contactCount: NUMBER,
+});
+
+export const CONTACT_SCHEMA = objectOf<Contact>({
+  id: STRING,
+  firstName: STRING,
+  lastName: STRING,
+  name: STRING,
+  email: STRING,
+  phone: STRING,
+  title: STRING,
+  isPrimaryContact: BOOLEAN,
+  isVIP: BOOLEAN,
+  site: SITE_SCHEMA,
+});
+
+export const CUSTOM_FIELD_SCHEMA = objectOf<CustomField>({
+  name: STRING,
+  value: STRING,
+});
+
+export const CLIENT_SCHEMA = objectOf<Client>({
+  accountId: STRING,
+  name: STRING,
+  stage: STRING,
+  status: STRING,
+  emailDomains: arrayOf(STRING),
+  website: STRING,
+  phone: STRING,
+  industry: STRING,
+  employeeCount: NUMBER,
+  annualRevenue: NUMBER,
+  address: ADDRESS_SCHEMA,
+  accountManager: TECHNICIAN_SCHEMA,
+  primaryContact: CONTACT_SCHEMA,
+  sites: arrayOf(SITE_SCHEMA),
+  customFields: arrayOf(CUSTOM_FIELD_SCHEMA),
+  createdTime: STRING,
+  lastUpdatedTime: STRING,
+});
+
+export const TECH_GROUP_SCHEMA = objectOf<TechGroup>({
+  id: STRING,
+  name: STRING,
+});
+
+export const CATEGORY_SCHEMA = objectOf<Category>({
+  id: STRING,
+  name: STRING,
+});
+
+export const LINKED_TICKET_SCHEMA = objectOf<LinkedTicket>({
+  ticketId: STRING,
+  ticketNumber: STRING,
+  subject: STRING,
+  status: STRING,
+  linkType: STRING,
+});
+
+export const TICKET_SCHEMA = objectOf<Ticket>({
+  ticketId: STRING,
+  ticketNumber: STRING,
+  subject: STRING,
+  description: STRING,
+  status: STRING,
+  priority: STRING,
+  impact: STRING,
+  urgency: STRING,
+  ticketType: STRING,
+  requestType: STRING,
+  source: STRING,
+  client: CLIENT_SCHEMA,
+  site: SITE_SCHEMA,
+  requester: CONTACT_SCHEMA,
+  assignee: TECHNICIAN_SCHEMA,
+  techGroup: TECH_GROUP_SCHEMA,
+  category: CATEGORY_SCHEMA,
+  customFields: arrayOf(CUSTOM_FIELD_SCHEMA),
+  resolution: STRING,
+  firstResponseDueTime: STRING,
+  firstResponseTime: STRING,
+  firstResponseViolated: BOOLEAN,
+  resolutionDueTime: STRING,
+  resolutionTime: STRING,
+  resolutionViolated: BOOLEAN,
+  linkedTickets: arrayOf(LINKED_TICKET_SCHEMA),
+  createdTime: STRING,
+  lastUpdatedTime: STRING,
+});
+
+export const TICKET_NOTE_SCHEMA = objectOf<TicketNote>({
+  noteId: STRING,
+  content: STRING,
+  isPublic: BOOLEAN,
+  createdTime: STRING,
+  createdBy: TECHNICIAN_SCHEMA,
+});
+
+export const TIME_ENTRY_SCHEMA = objectOf<TimeEntry>({
+  timeEntryId: STRING,
+  ticketId: STRING,
+  duration: NUMBER,
+  description: STRING,
+  workType: STRING,
+  billable: BOOLEAN,
+  technician: TECHNICIAN_SCHEMA,
+  createdTime: STRING,
+});
+
+export const ATTACHMENT_SCHEMA = objectOf<Attachment>({
+  attachmentId: STRING,
+  fileName: STRING,
+  fileSize: NUMBER,
+  contentType: STRING,
+  createdTime: STRING,
+  uploadedBy: TECHNICIAN_SCHEMA,
+});
+
+export const CONVERSATION_ENTRY_SCHEMA = objectOf<ConversationEntry>({
+  entryId: STRING,
+  type: STRING,
+  createdTime: STRING,
+  author: TECHNICIAN_SCHEMA,
+  content: STRING,
+  isPublic: BOOLEAN,
+  cc: arrayOf(STRING),
+  duration: NUMBER,
+  workType: STRING,
+  billable: BOOLEAN,
+  fromStatus: STRING,
+  toStatus: STRING,
+});
+
+export const PATCH_STATUS_SCHEMA = objectOf<PatchStatus>({
+  pendingCount: NUMBER,
+  installedCount: NUMBER,
+  failedCount: NUMBER,
+  lastScanDate: STRING,
+});
+
+export const ASSET_SCHEMA = objectOf<Asset>({
+  assetId: STRING,
+  name: STRING,
+  status: STRING,
+  platform: STRING,
+  lastSeen: STRING,
+  agentVersion: STRING,
+  ipAddress: STRING,
+  macAddress: STRING,
+  publicIp: STRING,
+  hostname: STRING,
+  manufacturer: STRING,
+  model: STRING,
+  serialNumber: STRING,
+  processorName: STRING,
+  processorCores: NUMBER,
+  totalMemory: NUMBER,
+  totalDiskSpace: NUMBER,
+  freeDiskSpace: NUMBER,
+  osName: STRING,
+  osVersion: STRING,
+  osBuild: STRING,
+  architecture: STRING,
+  client: CLIENT_SCHEMA,
+  site: SITE_SCHEMA,
+  tags: arrayOf(STRING),
+  customFields: arrayOf(CUSTOM_FIELD_SCHEMA),
+  patchStatus: PATCH_STATUS_SCHEMA,
+});
+
+export const LIST_INFO_SCHEMA = objectOf<ListInfo>({
+  totalCount: NUMBER,
+  hasNextPage: BOOLEAN,
+  hasPreviousPage: BOOLEAN,
+  startCursor: STRING,
+  endCursor: STRING,
+});
+
+export const PAGINATION_SCHEMA = objectOf<PaginationSummary>({
+  pagesFetched: NUMBER,
+  itemsFetched: NUMBER,
+  truncated: BOOLEAN,
+});
+
+/**
+ * Output schema for a tool returning a single entity as its result.
+ */
+export function entityOutputSchema(schema: JsonSchema): ToolOutputSchema {
+  return { type: "object", properties: schema.properties ?? {} };
+}
+
+/**
+ * Output schema for a tool returning an object with the given properties.
+ */
+export function outputSchema(properties: Record<string, JsonSchema>): ToolOutputSchema {
+  return { type: "object", properties };
+}
+
+/**
+ * Output schema for a list tool: items under `key`, with listInfo and the
+ * auto-pagination summary.
+ */
+export function listOutputSchema(key: string, items: JsonSchema): ToolOutputSchema {
+  return outputSchema({
+    [key]: arrayOf(items),
+    listInfo: LIST_INFO_SCHEMA,
+    pagination: PAGINATION_SCHEMA,
+  });
+}
@@ -0,0 +1,380 @@
+/**
+ * SuperOps.ai MCP Server Factory
+ *
+ * Builds an MCP server with the decision tree tool handlers. Each transport
+ * connection (stdio, or one HTTP session) gets its own server instance.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type {
+  AuthMode,
+  Domain,
+  DomainTools,
+  SuperOpsCredentials,
+  ToolContent,
+  ToolContext,
+  ToolDefinition,
+} from "./types.js";
+import {
+  getAuthMode,
+  getClient,
+  getCredentials,
+  parseCredentialsFromHeaders,
+} from "./client.js";
+import { errorResult } from "./errors.js";
+import type { RateLimiterStats } from "./rate-limiter.js";
+import { getSessionDomain, setSessionDomain } from "./session.js";
+import { assertValidArguments, omitNullArguments } from "./validation.js";
+
+// Lazy-loaded domain modules
+const domainCache = new Map<Domain, DomainTools<ToolContent>>();
+
+async function loadDomain(domain: Domain): Promise<DomainTools<ToolContent>> {
+  const cached = domainCache.get(domain);
+  if (cached) {
+    return cached;
+  }
+
+  let tools: DomainTools<ToolContent>;
+  switch (domain) {
+    case "clients": {
+      const { getClientsTools } = await import("./domains/clients.js");
+      tools = getClientsTools();
+      break;
+    }
+    case "tickets": {
+      const { getTicketsTools } = await import("./domains/tickets.js");
+      tools = getTicketsTools();
+      break;
+    }
+    case "assets": {
+      const { getAssetsTools } = await import("./domains/assets.js");
+      tools = getAssetsTools();
+      break;
+    }
+    case "technicians": {
+      const { getTechniciansTools } = await import("./domains/technicians.js");
+      tools = getTechniciansTools();
+      break;
+    }
+    case "custom": {
+      const { getCustomTools } = await import("./domains/custom.js");
+      tools = getCustomTools();
+      break;
+    }
+    default:
+      throw new Error(`Unknown domain: ${domain}`);
+  }
+
+  domainCache.set(domain, tools);
+  return tools;
+}
+
+// Navigation tool definition
+const navigationTool: ToolDefinition = {
+  name: "superops_navigate",
+  description:
+    "Navigate to a SuperOps.ai domain to access its tools. Available domains: clients (accounts/companies), tickets (service desk), assets (endpoints/devices), technicians (agents/teams), custom (advanced GraphQL queries).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      domain: {
+        type: "string",
+        description: "The domain to navigate to",
+        enum: ["clients", "tickets", "assets", "technicians", "custom"],
+      },
+    },
+    required: ["domain"],
+  },
+};
+
+// Back/reset tool definition
+const backTool: ToolDefinition = {
+  name: "superops_back",
+  description:
+    "Return to the main navigation menu to select a different domain.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+};
+
+// Connection test tool
+const testConnectionTool: ToolDefinition = {
+  name: "superops_test_connection",
+  description:
+    "Test the connection to SuperOps.ai API using configured credentials.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+};
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ServerOptions {
+  // Defaults to the AUTH_MODE environment variable
+  authMode?: AuthMode;
+  // Credentials for env auth mode when not running under Node's process.env
+  // (e.g. Cloudflare Worker bindings)
+  getCredentials?: () => SuperOpsCredentials | null;
+}
+
+/**
+ * Resolve the credentials and context for a tool call. In header auth mode
+ * each request carries its tenant's credentials, which are passed to the
+ * domain handlers in the call context; otherwise the environment credentials
+ * are used. The context also carries the request's abort signal.
+ */
+function resolveContext(
+  extra: RequestExtra,
+  options: ServerOptions
+): {
+  credentials: SuperOpsCredentials | null;
+  context: ToolContext;
+} {
+  const { signal } = extra;
+  if ((options.authMode ?? getAuthMode()) === "header") {
+    const credentials = parseCredentialsFromHeaders(extra.requestInfo?.headers ?? {});
+    return { credentials, context: credentials ? { credentials, signal } : { signal } };
+  }
+  if (options.getCredentials) {
+    const credentials = options.getCredentials();
+    return { credentials, context: credentials ? { credentials, signal } : { signal } };
+  }
+  return { credentials: getCredentials(), context: { signal } };
+}
+
+function missingCredentialsResult(options: ServerOptions) {
+  const text =
+    (options.authMode ?? getAuthMode()) === "header"
+      ? "Error: No API credentials provided. Please send the X-SuperOps-API-Token and X-SuperOps-Subdomain headers (and optionally X-SuperOps-Region: us or eu)."
+      : "Error: No API credentials configured. Please set SUPEROPS_API_TOKEN and SUPEROPS_SUBDOMAIN environment variables.";
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+/**
+ * Call a domain tool after checking its arguments against the tool's input
+ * schema, so invalid arguments are reported before any API call. Optional
+ * arguments sent as null are dropped before the handler sees them.
+ */
+async function callDomainTool(
+  domainTools: DomainTools<ToolContent>,
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: ToolContext
+) {
+  try {
+    assertValidArguments(tool, args);
+  } catch (error) {
+    return errorResult(error, tool);
+  }
+  return domainTools.handleCall(tool.name, omitNullArguments(tool.inputSchema, args), context);
+}
+
+function formatRateLimitStats(stats: RateLimiterStats): string {
+  return [
+    "Rate limiter:",
+    `- Limit: ${stats.requestsPerMinute} requests/minute, ${stats.maxConcurrency} concurrent`,
+    `- Queue depth: ${stats.queueDepth} (${stats.active} in flight)`,
+    `- Wait time: last ${stats.lastWaitMs} ms, average ${stats.averageWaitMs} ms, max ${stats.maxWaitMs} ms`,
+  ].join("\n");
+}
+
+export function createServer(options: ServerOptions = {}): Server {
+  const server = new Server(
+    {
+      name: "superops-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+      },
+    }
+  );
+
+  // Switch the calling session's domain, notifying only that session
+  // when its tool list changes
+  async function navigate(extra: RequestExtra, domain: Domain | null): Promise<void> {
+    if (setSessionDomain(extra.sessionId, domain)) {
+      await extra.sendNotification({ method: "notifications/tools/list_changed" });
+    }
+  }
+
+  // List available tools based on the requesting session's domain state
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    const tools: ToolDefinition[] = [testConnectionTool];
+    const currentDomain = getSessionDomain(extra.sessionId);
+
+    if (currentDomain === null) {
+      // Navigation mode - show navigation tool
+      tools.push(navigationTool);
+    } else {
+      // Domain mode - show domain tools plus back tool
+      tools.push(backTool);
+      const domainTools = await loadDomain(currentDomain);
+      tools.push(...domainTools.tools);
+    }
+
+    return { tools };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Handle test connection
+    if (name === "superops_test_connection") {
+      const { credentials: creds, context } = resolveContext(extra, options);
+      if (!creds) {
+        return missingCredentialsResult(options);
+      }
+
+      try {
+        // Try to load clients domain and make a simple query
+        const clientsTools = await loadDomain("clients");
+        const result = await clientsTools.handleCall(
+          "superops_clients_list",
+          { max: 1 },
+          context
+        );
+
+        if (result.isError) {
+          return result;
+        }
+
+        const stats = getClient(context).rateLimitStats();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Connection successful!\n\nCredentials configured for:\n- Subdomain: ${creds.subdomain}\n- Region: ${creds.region ?? "us"}\n\nAPI is responding correctly.\n\n${formatRateLimitStats(stats)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Connection test failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    // Handle navigation
+    if (name === "superops_navigate") {
+      const { domain } = (args ?? {}) as { domain?: string };
+      const validDomains: Domain[] = [
+        "clients",
+        "tickets",
+        "assets",
+        "technicians",
+        "custom",
+      ];
+
+      if (!domain || !validDomains.includes(domain as Domain)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Invalid domain. Please choose from: ${validDomains.join(", ")}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const domainTools = await loadDomain(domain as Domain);
+      await navigate(extra, domain as Domain);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Navigated to ${domain} domain. Available tools:\n\n${domainTools.tools.map((t) => `- ${t.name}: ${t.description}`).join("\n")}\n\nUse superops_back to return to the main menu.`,
+          },
+        ],
+      };
+    }
+
+    // Handle back
+    if (name === "superops_back") {
+      await navigate(extra, null);
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Returned to main navigation. Use superops_navigate to select a domain:\n\n- clients: Manage client accounts and contacts\n- tickets: Service desk and ticket management\n- assets: Endpoint inventory and RMM\n- technicians: Agent and team management\n- custom: Advanced GraphQL queries",
+          },
+        ],
+      };
+    }
+
+    // Check for credential issues before domain calls
+    const { credentials: creds, context } = resolveContext(extra, options);
+    if (!creds) {
+      return missingCredentialsResult(options);
+    }
+
+    // Handle domain-specific tools
+    const currentDomain = getSessionDomain(extra.sessionId);
+    if (currentDomain) {
+      const domainTools = await loadDomain(currentDomain);
+
+      // Check if the tool belongs to this domain
+      const tool = domainTools.tools.find((t) => t.name === name);
+      if (tool) {
+        return callDomainTool(domainTools, tool, args ?? {}, context);
+      }
+    }
+
+    // Try to find the tool in any domain (for direct access)
+    const allDomains: Domain[] = [
+      "clients",
+      "tickets",
+      "assets",
+      "technicians",
+      "custom",
+    ];
+
+    for (const domain of allDomains) {
+      const domainTools = await loadDomain(domain);
+      const tool = domainTools.tools.find((t) => t.name === name);
+      if (tool) {
+        // Auto-navigate to the domain
+        await navigate(extra, domain);
+        return callDomainTool(domainTools, tool, args ?? {}, context);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unknown tool: ${name}. Use superops_navigate to explore available tools.`,
+        },
+      ],
+      isError: true,
+    };
+  });
+
+  return server;
+}
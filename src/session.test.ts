@@ -0,0 +1,42 @@
+/**
+ * Session State Tests
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { clearSession, getSessionDomain, setSessionDomain } from "./session.js";
+
+describe("Session navigation state", () => {
+  afterEach(() => {
+    clearSession("session-a");
+    clearSession("session-b");
+    clearSession();
+  });
+
+  it("starts in navigation mode", () => {
+    expect(getSessionDomain("session-a")).toBeNull();
+    expect(getSessionDomain()).toBeNull();
+  });
+
+  it("keeps domains separate per session", () => {
+    setSessionDomain("session-a", "tickets");
+    setSessionDomain("session-b", "assets");
+
+    expect(getSessionDomain("session-a")).toBe("tickets");
+    expect(getSessionDomain("session-b")).toBe("assets");
+    expect(getSessionDomain()).toBeNull();
+  });
+
+  it("reports whether the domain changed", () => {
+    expect(setSessionDomain("session-a", "tickets")).toBe(true);
+    expect(setSessionDomain("session-a", "tickets")).toBe(false);
+    expect(setSessionDomain("session-a", null)).toBe(true);
+    expect(setSessionDomain("session-a", null)).toBe(false);
+  });
+
+  it("clears a session's state", () => {
+    setSessionDomain("session-a", "tickets");
+    clearSession("session-a");
+
+    expect(getSessionDomain("session-a")).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Per-Session Navigation State
+ *
+ * Tracks the active domain for each MCP session so that one client navigating
+ * does not change the tool list seen by other clients sharing the server.
+ */
+
+import type { Domain } from "./types.js";
+
+// stdio connections have no MCP session ID
+const STDIO_SESSION = "stdio";
+
+// Active domain per session (absent = navigation mode)
+const sessionDomains = new Map<string, Domain>();
+
+function sessionKey(sessionId?: string): string {
+  return sessionId ?? STDIO_SESSION;
+}
+
+export function getSessionDomain(sessionId?: string): Domain | null {
+  return sessionDomains.get(sessionKey(sessionId)) ?? null;
+}
+
+/**
+ * Set the active domain for a session.
+ *
+ * @returns true if the domain changed
+ */
+export function setSessionDomain(sessionId: string | undefined, domain: Domain | null): boolean {
+  const key = sessionKey(sessionId);
+  const previous = sessionDomains.get(key) ?? null;
+  if (previous === domain) {
+    return false;
+  }
+
+  if (domain === null) {
+    sessionDomains.delete(key);
+  } else {
+    sessionDomains.set(key, domain);
+  }
+  return true;
+}
+
+export function clearSession(sessionId?: string): void {
+  sessionDomains.delete(sessionKey(sessionId));
+}
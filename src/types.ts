@@ -15,10 +15,16 @@ export interface GraphQLResponse<T = unknown> {
   errors?: GraphQLError[];
 }
 
+// Data returned alongside any errors for fields that failed to resolve
+export interface GraphQLResult<T = unknown> {
+  data: T;
+  errors: GraphQLError[];
+}
+
 export interface GraphQLError {
   message: string;
   locations?: { line: number; column: number }[];
-  path?: string[];
+  path?: (string | number)[];
   extensions?: {
     code?: string;
     retryAfter?: number;
@@ -120,6 +126,14 @@ export interface Ticket {
   category?: Category;
   customFields?: CustomField[];
   resolution?: string;
+  // SLA targets and when they were met; a violated flag is set once a target is missed
+  firstResponseDueTime?: string;
+  firstResponseTime?: string;
+  firstResponseViolated?: boolean;
+  resolutionDueTime?: string;
+  resolutionTime?: string;
+  resolutionViolated?: boolean;
+  linkedTickets?: LinkedTicket[];
   createdTime?: string;
   lastUpdatedTime?: string;
 }
@@ -153,6 +167,48 @@ export interface TimeEntry {
   createdTime?: string;
 }
 
+// A file attached to a ticket; fileSize is in bytes
+export interface Attachment {
+  attachmentId: string;
+  fileName: string;
+  fileSize?: number;
+  contentType?: string;
+  createdTime?: string;
+  uploadedBy?: Technician;
+}
+
+export type TicketLinkType = "PARENT" | "CHILD" | "RELATED";
+
+// A ticket linked to another; linkType is its relation to that ticket
+export interface LinkedTicket {
+  ticketId: string;
+  ticketNumber?: string;
+  subject?: string;
+  status?: string;
+  linkType: TicketLinkType;
+}
+
+export type ConversationEntryType = "REPLY" | "NOTE" | "TIME_ENTRY" | "STATUS_CHANGE";
+
+// One entry in a ticket's conversation thread. Replies and notes carry
+// content, time entries a duration, and status changes the old and new status.
+export interface ConversationEntry {
+  entryId: string;
+  type: ConversationEntryType;
+  createdTime: string;
+  // The technician, or the requester for their own replies
+  author?: Technician;
+  content?: string;
+  isPublic?: boolean;
+  // Addresses copied on a reply
+  cc?: string[];
+  duration?: number;
+  workType?: string;
+  billable?: boolean;
+  fromStatus?: string;
+  toStatus?: string;
+}
+
 // Asset types
 export interface Asset {
   assetId: string;
@@ -205,6 +261,12 @@ export interface CustomField {
 }
 
 // Tool definition types
+export interface ToolOutputSchema {
+  type: "object";
+  properties?: Record<string, unknown>;
+  required?: string[];
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -213,14 +275,49 @@ export interface ToolDefinition {
     properties: Record<string, unknown>;
     required?: string[];
   };
+  // Shape of the tool's structuredContent
+  outputSchema?: ToolOutputSchema;
+}
+
+// A file embedded in a tool result, as text or base64-encoded binary data
+export interface EmbeddedResource {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
 }
 
+export type TextContent = { type: "text"; text: string };
+
+// Text, or an embedded file
+export type ToolContent = TextContent | { type: "resource"; resource: EmbeddedResource };
+
+// A type alias rather than an interface so it fits the SDK's open result type.
+// Content is text only unless a domain declares it can embed files.
+export type ToolResult<Content extends ToolContent = TextContent> = {
+  content: Content[];
+  // Machine-readable result matching the tool's outputSchema
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
 export type Domain = "clients" | "tickets" | "assets" | "technicians" | "custom";
 
-export interface DomainTools {
+export type AuthMode = "env" | "header";
+
+// Per-call context passed from the MCP request to domain handlers
+export interface ToolContext {
+  // Tenant credentials for this call (header auth mode); env credentials when absent
+  credentials?: SuperOpsCredentials;
+  // Aborted when the MCP client cancels the call
+  signal?: AbortSignal;
+}
+
+export interface DomainTools<Content extends ToolContent = TextContent> {
   tools: ToolDefinition[];
   handleCall: (
     name: string,
-    args: Record<string, unknown>
-  ) => Promise<{ content: { type: string; text: string }[]; isError?: boolean }>;
+    args: Record<string, unknown>,
+    context?: ToolContext
+  ) => Promise<ToolResult<Content>>;
 }
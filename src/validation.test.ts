@@ -0,0 +1,195 @@
+/**
+ * Tool Argument Validation Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SuperOpsError, errorResult } from "./errors.js";
+import type { ToolDefinition } from "./types.js";
+import { assertValidArguments, omitNullArguments, validateArguments } from "./validation.js";
+
+const tool: ToolDefinition = {
+  name: "superops_tickets_update",
+  description: "Update a ticket",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ticketId: { type: "string" },
+      priority: { type: "string", enum: ["Low", "Medium", "High", "Critical"] },
+      max: { type: "number", minimum: 1, maximum: 500 },
+      count: { type: "integer" },
+      dryRun: { type: "boolean" },
+      status: {
+        type: "array",
+        items: { type: "string", enum: ["Open", "Closed"] },
+        minItems: 1,
+        maxItems: 2,
+      },
+      input: {
+        type: "object",
+        properties: { subject: { type: "string" } },
+        required: ["subject"],
+      },
+    },
+    required: ["ticketId"],
+  },
+};
+
+describe("validateArguments", () => {
+  it("accepts valid arguments", () => {
+    const issues = validateArguments(tool.inputSchema, {
+      ticketId: "123",
+      priority: "High",
+      max: 500,
+      count: 3,
+      dryRun: true,
+      status: ["Open", "Closed"],
+      input: { subject: "Printer" },
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it("reports a missing required argument", () => {
+    expect(validateArguments(tool.inputSchema, {})).toEqual([
+      { field: "ticketId", message: "`ticketId` is required" },
+    ]);
+  });
+
+  it("treats null as missing", () => {
+    expect(validateArguments(tool.inputSchema, { ticketId: null, max: null })).toEqual([
+      { field: "ticketId", message: "`ticketId` is required" },
+    ]);
+  });
+
+  it("checks types", () => {
+    const issues = validateArguments(tool.inputSchema, {
+      ticketId: 123,
+      max: "50",
+      count: 1.5,
+      dryRun: "yes",
+      status: "Open",
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "`ticketId` must be string, got 123",
+      '`max` must be number, got "50"',
+      "`count` must be integer, got 1.5",
+      '`dryRun` must be boolean, got "yes"',
+      '`status` must be array, got "Open"',
+    ]);
+  });
+
+  it("lists the allowed values for an enum", () => {
+    expect(validateArguments(tool.inputSchema, { ticketId: "1", priority: "Urgent" })).toEqual([
+      {
+        field: "priority",
+        message: '`priority` must be one of: Low, Medium, High, Critical (got "Urgent")',
+      },
+    ]);
+  });
+
+  it("checks minimum and maximum", () => {
+    const low = validateArguments(tool.inputSchema, { ticketId: "1", max: 0 });
+    const high = validateArguments(tool.inputSchema, { ticketId: "1", max: 501 });
+
+    expect(low[0].message).toBe("`max` must be at least 1, got 0");
+    expect(high[0].message).toBe("`max` must be at most 500, got 501");
+  });
+
+  it("checks the number of array items", () => {
+    const few = validateArguments(tool.inputSchema, { ticketId: "1", status: [] });
+    const many = validateArguments(tool.inputSchema, {
+      ticketId: "1",
+      status: ["Open", "Open", "Closed"],
+    });
+
+    expect(few[0].message).toBe("`status` must have at least 1 item(s), got 0");
+    expect(many[0].message).toBe("`status` must have at most 2 item(s), got 3");
+  });
+
+  it("checks array items and nested objects", () => {
+    const issues = validateArguments(tool.inputSchema, {
+      ticketId: "1",
+      status: ["Open", "Done"],
+      input: {},
+    });
+
+    expect(issues).toEqual([
+      { field: "status[1]", message: '`status[1]` must be one of: Open, Closed (got "Done")' },
+      { field: "input.subject", message: "`input.subject` is required" },
+    ]);
+  });
+
+  it("ignores arguments the schema does not declare", () => {
+    expect(validateArguments(tool.inputSchema, { ticketId: "1", extra: 1 })).toEqual([]);
+  });
+
+  it("accepts any of a union type", () => {
+    const schema = {
+      type: "object" as const,
+      properties: { value: { type: ["string", "number"] } },
+    };
+
+    expect(validateArguments(schema, { value: 1 })).toEqual([]);
+    expect(validateArguments(schema, { value: true })[0].message).toBe(
+      "`value` must be string or number, got true"
+    );
+  });
+});
+
+describe("assertValidArguments", () => {
+  it("does nothing for valid arguments", () => {
+    expect(() => assertValidArguments(tool, { ticketId: "1" })).not.toThrow();
+  });
+
+  it("throws a validation error naming the tool", () => {
+    expect(() => assertValidArguments(tool, {})).toThrow(
+      "Invalid argument for superops_tickets_update: `ticketId` is required"
+    );
+  });
+
+  it("lists every problem in one error", () => {
+    let caught: unknown;
+    try {
+      assertValidArguments(tool, { priority: "Urgent", max: 0 });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(SuperOpsError);
+    expect((caught as SuperOpsError).kind).toBe("validation");
+    expect(errorResult(caught, tool).content[0].text).toBe(
+      [
+        "Error (validation): Invalid arguments for superops_tickets_update:",
+        "- `ticketId` is required",
+        '- `priority` must be one of: Low, Medium, High, Critical (got "Urgent")',
+        "- `max` must be at least 1, got 0",
+        "Check the arguments against the tool's input schema.",
+      ].join("\n")
+    );
+  });
+});
+
+describe("omitNullArguments", () => {
+  it("drops null arguments, including in declared nested objects", () => {
+    expect(
+      omitNullArguments(tool.inputSchema, {
+        ticketId: "1",
+        max: null,
+        extra: null,
+        input: { subject: "Printer", body: null },
+      })
+    ).toEqual({ ticketId: "1", input: { subject: "Printer" } });
+  });
+
+  it("keeps nulls in free-form objects", () => {
+    const schema = {
+      type: "object" as const,
+      properties: { variables: { type: "object" } },
+    };
+
+    expect(omitNullArguments(schema, { variables: { id: null } })).toEqual({
+      variables: { id: null },
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tool Argument Validation
+ *
+ * Checks a tool call's arguments against the tool's input schema before the
+ * call reaches a domain handler, so a bad argument is reported precisely
+ * instead of failing (or silently misbehaving) at the API. Covers the JSON
+ * Schema keywords the tool definitions use: type, required, enum,
+ * minimum/maximum, minItems/maxItems, items and nested properties.
+ * Arguments the schema does not declare are left alone.
+ */
+
+import { SuperOpsError } from "./errors.js";
+import type { ToolDefinition } from "./types.js";
+
+interface SchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+}
+
+export interface ValidationIssue {
+  // Dotted path of the offending argument, e.g. "status[1]"
+  field: string;
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  return typeof value === "object" ? "an object" : String(value);
+}
+
+function checkValue(
+  value: unknown,
+  schema: SchemaNode,
+  field: string,
+  issues: ValidationIssue[]
+): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        field,
+        message: `\`${field}\` must be ${types.join(" or ")}, got ${describe(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      field,
+      message: `\`${field}\` must be one of: ${schema.enum.join(", ")} (got ${describe(value)})`,
+    });
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({
+        field,
+        message: `\`${field}\` must be at least ${schema.minimum}, got ${value}`,
+      });
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({
+        field,
+        message: `\`${field}\` must be at most ${schema.maximum}, got ${value}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        field,
+        message: `\`${field}\` must have at least ${schema.minItems} item(s), got ${value.length}`,
+      });
+    } else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        field,
+        message: `\`${field}\` must have at most ${schema.maxItems} item(s), got ${value.length}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, i) => checkValue(item, items, `${field}[${i}]`, issues));
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required)) {
+    checkProperties(value, schema, `${field}.`, issues);
+  }
+}
+
+function checkProperties(
+  value: Record<string, unknown>,
+  schema: SchemaNode,
+  prefix: string,
+  issues: ValidationIssue[]
+): void {
+  const required = new Set(schema.required ?? []);
+  for (const name of required) {
+    if (value[name] === undefined || value[name] === null) {
+      issues.push({ field: `${prefix}${name}`, message: `\`${prefix}${name}\` is required` });
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const argument = value[name];
+    // Clients often send null for an optional argument they mean to leave
+    // out; a missing required one has already been reported
+    if (argument === undefined || argument === null) {
+      continue;
+    }
+    checkValue(argument, property, `${prefix}${name}`, issues);
+  }
+}
+
+function omitNulls(value: Record<string, unknown>, schema: SchemaNode): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, argument] of Object.entries(value)) {
+    if (argument === undefined || argument === null) {
+      continue;
+    }
+    const property = schema.properties?.[name];
+    result[name] =
+      isPlainObject(argument) && property?.properties ? omitNulls(argument, property) : argument;
+  }
+  return result;
+}
+
+/**
+ * Arguments with null values dropped, so handlers see an optional argument
+ * sent as null the same as one left out. Nested objects are cleaned only
+ * where the schema declares their properties; free-form objects such as
+ * GraphQL variables keep their nulls.
+ */
+export function omitNullArguments(
+  schema: ToolDefinition["inputSchema"],
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  return omitNulls(args, schema as SchemaNode);
+}
+
+/**
+ * Check arguments against an input schema, returning every problem found.
+ */
+export function validateArguments(
+  schema: ToolDefinition["inputSchema"],
+  args: Record<string, unknown>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkProperties(args, schema as SchemaNode, "", issues);
+  return issues;
+}
+
+/**
+ * Validate a tool call's arguments.
+ *
+ * @throws SuperOpsError (validation) listing every invalid argument
+ */
+export function assertValidArguments(tool: ToolDefinition, args: Record<string, unknown>): void {
+  const issues = validateArguments(tool.inputSchema, args);
+  if (issues.length === 0) {
+    return;
+  }
+
+  // The messages already name each field and its allowed values, so no
+  // field is set for errorResult to repeat them in its hint
+  const message =
+    issues.length === 1
+      ? `Invalid argument for ${tool.name}: ${issues[0].message}`
+      : [
+          `Invalid arguments for ${tool.name}:`,
+          ...issues.map((issue) => `- ${issue.message}`),
+        ].join("\n");
+  throw new SuperOpsError(message, { kind: "validation" });
+}
@@ -0,0 +1,152 @@
+/**
+ * Cloudflare Workers Entry Point Tests
+ *
+ * Runs the worker fetch handler against an in-process stand-in for the
+ * Durable Object namespace.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+
+import worker, {
+  McpSession,
+  type DurableObjectId,
+  type DurableObjectNamespace,
+  type WorkerEnv,
+} from "./worker.js";
+
+function createNamespace(getEnv: () => WorkerEnv): DurableObjectNamespace {
+  const objects = new Map<string, McpSession>();
+  return {
+    idFromName: (name: string): DurableObjectId => ({ toString: () => name }),
+    get: (id: DurableObjectId) => ({
+      fetch: (request: Request) => {
+        const key = id.toString();
+        let object = objects.get(key);
+        if (!object) {
+          object = new McpSession({ id }, getEnv());
+          objects.set(key, object);
+        }
+        return object.fetch(request);
+      },
+    }),
+  };
+}
+
+describe("Cloudflare Worker", () => {
+  let env: WorkerEnv;
+  let apiFetch: Mock<[string | URL | Request, RequestInit?], Promise<Response>>;
+  const realFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    env = {
+      SUPEROPS_API_TOKEN: "worker-token",
+      SUPEROPS_SUBDOMAIN: "worker-company",
+      MCP_SESSIONS: createNamespace(() => env),
+    };
+    apiFetch = vi.fn(async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response(
+        JSON.stringify({
+          data: { getClientList: { clients: [], listInfo: { totalCount: 0, hasNextPage: false } } },
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      )
+    );
+    vi.stubGlobal("fetch", (input: string | URL | Request, init?: RequestInit) =>
+      String(input).includes("superops.ai") ? apiFetch(input, init) : realFetch(input, init)
+    );
+    // Credentials must come from bindings, not process.env
+    vi.stubEnv("SUPEROPS_API_TOKEN", "");
+    vi.stubEnv("SUPEROPS_SUBDOMAIN", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function connect(): Promise<Client> {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL("https://worker.test/mcp"), {
+      fetch: (input, init) => worker.fetch(new Request(input, init), env),
+    });
+    return client.connect(transport).then(() => client);
+  }
+
+  it("reports binding credentials in /health", async () => {
+    const response = await worker.fetch(new Request("https://worker.test/health"), env);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: "ok",
+      authMode: "env",
+      credentialsConfigured: true,
+    });
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const response = await worker.fetch(new Request("https://worker.test/unknown"), env);
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 404 for sessions it does not hold", async () => {
+    const response = await worker.fetch(
+      new Request("https://worker.test/mcp", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "mcp-session-id": "does-not-exist",
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      }),
+      env
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("serves tools over Streamable HTTP", async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(["superops_test_connection", "superops_navigate"]);
+
+    await client.close();
+  });
+
+  it("keeps navigation state per session", async () => {
+    const clientA = await connect();
+    const clientB = await connect();
+
+    await clientA.callTool({ name: "superops_navigate", arguments: { domain: "assets" } });
+
+    expect((await clientA.listTools()).tools.map((t) => t.name)).toContain(
+      "superops_assets_list"
+    );
+    expect((await clientB.listTools()).tools.map((t) => t.name)).toContain("superops_navigate");
+
+    await clientA.close();
+    await clientB.close();
+  });
+
+  it("uses credentials from worker bindings", async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: "superops_test_connection", arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect(apiFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: "Bearer worker-token",
+          CustomerSubDomain: "worker-company",
+        }),
+      })
+    );
+
+    await client.close();
+  });
+});
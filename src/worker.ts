@@ -0,0 +1,154 @@
+/**
+ * SuperOps.ai MCP Server - Cloudflare Workers Entry Point
+ *
+ * Serves the same tool surface as the Node server over MCP Streamable HTTP.
+ * Each MCP session is pinned to its own Durable Object, which holds the
+ * session's transport and navigation state in memory.
+ *
+ * Bindings:
+ * - SUPEROPS_API_TOKEN: Your SuperOps.ai API token (secret)
+ * - SUPEROPS_SUBDOMAIN: Your SuperOps.ai subdomain
+ * - SUPEROPS_REGION: API region (us or eu, default: us)
+ * - AUTH_MODE: Credential source (env or header, default: env)
+ * - MCP_SESSIONS: Durable Object namespace for McpSession
+ */
+
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+
+import { createServer } from "./server.js";
+import { clearSession } from "./session.js";
+import type { AuthMode, SuperOpsCredentials } from "./types.js";
+
+// Minimal Durable Object types, to avoid pulling in the Workers global types
+export interface DurableObjectId {
+  toString(): string;
+}
+
+export interface DurableObjectStub {
+  fetch(request: Request): Promise<Response>;
+}
+
+export interface DurableObjectNamespace {
+  idFromName(name: string): DurableObjectId;
+  get(id: DurableObjectId): DurableObjectStub;
+}
+
+export interface DurableObjectState {
+  id: DurableObjectId;
+}
+
+export interface WorkerEnv {
+  SUPEROPS_API_TOKEN?: string;
+  SUPEROPS_SUBDOMAIN?: string;
+  SUPEROPS_REGION?: string;
+  AUTH_MODE?: string;
+  MCP_SESSIONS: DurableObjectNamespace;
+}
+
+// Internal header carrying the session ID the worker assigned to a new session
+const ASSIGNED_SESSION_HEADER = "x-superops-mcp-session";
+
+function getAuthMode(env: WorkerEnv): AuthMode {
+  return env.AUTH_MODE === "header" ? "header" : "env";
+}
+
+function getCredentials(env: WorkerEnv): SuperOpsCredentials | null {
+  if (!env.SUPEROPS_API_TOKEN || !env.SUPEROPS_SUBDOMAIN) {
+    return null;
+  }
+
+  return {
+    apiToken: env.SUPEROPS_API_TOKEN,
+    subdomain: env.SUPEROPS_SUBDOMAIN,
+    region: env.SUPEROPS_REGION as "us" | "eu" | undefined,
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function jsonRpcError(status: number, message: string): Response {
+  return jsonResponse(status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Durable Object holding one MCP session.
+ */
+export class McpSession {
+  private readonly env: WorkerEnv;
+  private transport: WebStandardStreamableHTTPServerTransport | null = null;
+
+  constructor(_state: DurableObjectState, env: WorkerEnv) {
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (!this.transport) {
+      // The session this object held has gone (e.g. evicted); the client
+      // must start a new one
+      const sessionId = request.headers.get(ASSIGNED_SESSION_HEADER);
+      if (!sessionId) {
+        return jsonRpcError(404, "Session not found");
+      }
+
+      const transport = new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: () => sessionId,
+      });
+      transport.onclose = () => {
+        clearSession(sessionId);
+        this.transport = null;
+      };
+
+      const server = createServer({
+        authMode: getAuthMode(this.env),
+        getCredentials: () => getCredentials(this.env),
+      });
+      await server.connect(transport);
+      this.transport = transport;
+    }
+
+    return this.transport.handleRequest(request);
+  }
+}
+
+export default {
+  async fetch(request: Request, env: WorkerEnv): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === "/health" && request.method === "GET") {
+      const authMode = getAuthMode(env);
+      return jsonResponse(200, {
+        status: "ok",
+        authMode,
+        credentialsConfigured: authMode === "header" ? null : getCredentials(env) !== null,
+      });
+    }
+
+    if (url.pathname !== "/mcp") {
+      return jsonResponse(404, { error: "Not found" });
+    }
+
+    const headers = new Headers(request.headers);
+    headers.delete(ASSIGNED_SESSION_HEADER);
+
+    let sessionId = headers.get("mcp-session-id");
+    if (!sessionId) {
+      if (request.method !== "POST") {
+        return jsonRpcError(400, "Bad Request: No valid session ID provided");
+      }
+      sessionId = crypto.randomUUID();
+      headers.set(ASSIGNED_SESSION_HEADER, sessionId);
+    }
+
+    const stub = env.MCP_SESSIONS.get(env.MCP_SESSIONS.idFromName(sessionId));
+    return stub.fetch(new Request(request, { headers }));
+  },
+};